@@ -0,0 +1,206 @@
+import {
+	App, Editor, EditorPosition, EditorSuggest, EditorSuggestContext, EditorSuggestTriggerInfo,
+	MarkdownFileInfo, MarkdownView, Plugin, TFile, editorInfoField, parseLinktext
+} from 'obsidian';
+import {EditorView, Decoration, DecorationSet, ViewPlugin} from '@codemirror/view';
+import {StateEffect, StateField} from '@codemirror/state';
+import {termSlug} from './parser';
+import {GlossaryEntry, GlossaryIndex} from './glossary';
+
+/* Links to terms
+ * ==============
+ * A term can be linked to like a heading, as in [[Climate#cryosphere]] or
+ * [[Climate#^cryosphere]], with the slug of the term (see termSlug). In
+ * Reading View and PDF, the <dt> of the term has the slug as its id.
+ * Obsidian itself only knows headings and blocks, and doesn't tell plugins
+ * the subpath of a link it follows. So the plugin notes the link that is
+ * clicked, and when Obsidian opens its note and the subpath isn't a heading
+ * or block, it looks for a term with that slug, scrolls to it and
+ * highlights it for a moment.
+ * The suggester for [[Note# offers the terms of the note next to its headings;
+ * it comes before Obsidian's own suggesters, which would offer only the
+ * headings, and leaves block references ([[Note#^) to them.
+ */
+
+const HIGHLIGHT_CLASS: string = 'dl-term-highlight';
+const HIGHLIGHT_MS: number = 2000;
+/* how long after the click on a link its note may open */
+const FOLLOW_MS: number = 2000;
+
+/* The highlight of the linked term in the editor */
+const setHighlight = StateEffect.define<number | null>();
+const highlightField = StateField.define<DecorationSet>({
+	create: () => Decoration.none,
+	update(highlight, transaction) {
+		highlight = highlight.map(transaction.changes);
+		for (const effect of transaction.effects)
+			if (effect.is(setHighlight))
+				highlight = effect.value === null ? Decoration.none :
+					Decoration.set(Decoration.line({class: HIGHLIGHT_CLASS}).range(effect.value));
+		return highlight;
+	},
+	provide: field => EditorView.decorations.from(field)
+});
+
+/* The CodeMirror EditorView of every open editor, by its MarkdownView */
+const editorViews: WeakMap<MarkdownFileInfo, EditorView> = new WeakMap();
+const editorViewTracker = ViewPlugin.define(view => {
+	const info: MarkdownFileInfo | undefined = view.state.field(editorInfoField, false);
+	if (info)
+		editorViews.set(info, view);
+	return {
+		destroy: () => {
+			if (info && editorViews.get(info) === view)
+				editorViews.delete(info);
+		}
+	};
+});
+
+/** Scrolls to the term of the subpath and highlights it, if the note has such a term */
+function revealTerm(app: App, index: GlossaryIndex, view: MarkdownView, subpath: string): void {
+	const anchor: string = termSlug(subpath.replace(/^#\^?/, ''));
+	if (!view.file || !anchor)
+		return;
+	// headings and blocks are Obsidian's business
+	const cache = app.metadataCache.getFileCache(view.file);
+	if (cache?.headings?.some(heading => termSlug(heading.heading) === anchor) || cache?.blocks?.[anchor])
+		return;
+	const entry: GlossaryEntry | undefined = index.entriesOf(view.file).find(e => termSlug(e.term) === anchor);
+	if (!entry)
+		return;
+	view.setEphemeralState({line: entry.line});
+
+	if (view.getMode() === 'preview') {
+		// the part of the note with the term may still be rendering
+		window.setTimeout(() => {
+			const dt: HTMLElement | null = view.previewMode.containerEl.querySelector(`dt#${CSS.escape(anchor)}`);
+			dt?.addClass(HIGHLIGHT_CLASS);
+			window.setTimeout(() => dt?.removeClass(HIGHLIGHT_CLASS), HIGHLIGHT_MS);
+		}, 100);
+		return;
+	}
+	const cm: EditorView | undefined = editorViews.get(view);
+	if (!cm || entry.line >= cm.state.doc.lines)
+		return;
+	cm.dispatch({effects: setHighlight.of(cm.state.doc.line(entry.line + 1).from)});
+	window.setTimeout(() => cm.dispatch({effects: setHighlight.of(null)}), HIGHLIGHT_MS);
+}
+
+/** A heading or a term of a note, as the target of a link */
+interface LinkTarget {
+	heading?: string,
+	entry?: GlossaryEntry
+}
+
+/** Suggests the headings and terms of a note after [[Note# */
+class TermLinkSuggest extends EditorSuggest<LinkTarget> {
+	private readonly index: GlossaryIndex;
+	private linkpath: string = '';
+
+	constructor(app: App, index: GlossaryIndex) {
+		super(app);
+		this.index = index;
+	}
+
+	onTrigger(cursor: EditorPosition, editor: Editor, _file: TFile | null): EditorSuggestTriggerInfo | null {
+		const match = editor.getLine(cursor.line).slice(0, cursor.ch).match(/\[\[([^\]|#]*)#([^\]|#^]*)$/);
+		if (!match)
+			return null;
+		this.linkpath = match[1];
+		return {start: {line: cursor.line, ch: cursor.ch - match[2].length}, end: cursor, query: match[2]};
+	}
+
+	getSuggestions(context: EditorSuggestContext): LinkTarget[] {
+		const file: TFile | null = this.linkpath ?
+			this.app.metadataCache.getFirstLinkpathDest(this.linkpath, context.file?.path ?? '') : context.file;
+		if (!file)
+			return [];
+		const query: string = context.query.toLowerCase();
+		const headings: LinkTarget[] = (this.app.metadataCache.getFileCache(file)?.headings ?? [])
+			.map(heading => ({heading: heading.heading}));
+		const terms: LinkTarget[] = this.index.entriesOf(file).map(entry => ({entry}));
+		return headings.concat(terms).filter(target =>
+			(target.heading ?? target.entry.term).toLowerCase().includes(query));
+	}
+
+	renderSuggestion(target: LinkTarget, el: HTMLElement): void {
+		el.createDiv({text: target.heading ?? target.entry.term});
+		el.createEl('small', {
+			cls: 'dl-link-suggestion-note',
+			text: target.heading !== undefined ? 'Heading' : target.entry.definitions[0] ?? 'Term'
+		});
+	}
+
+	selectSuggestion(target: LinkTarget, _evt: MouseEvent | KeyboardEvent): void {
+		if (!this.context)
+			return;
+		const {editor, start, end} = this.context;
+		// a term becomes its slug, which has no characters that would end the link
+		const text: string = target.heading ?? termSlug(target.entry.term);
+		const closed: boolean = editor.getLine(end.line).slice(end.ch).startsWith(']]');
+		editor.replaceRange(text + (closed ? '' : ']]'), start, end);
+		editor.setCursor({line: start.line, ch: start.ch + text.length + 2});
+	}
+}
+
+/* The link of the clicked element, as in `Climate#cryosphere`: the href of a link in Reading View, the text of the
+ * wikilink under it in the editor */
+function clickedLinktext(target: HTMLElement): string | null {
+	const link: HTMLElement | null = target.closest('a.internal-link');
+	if (link)
+		return link.dataset.href ?? link.getAttribute('href');
+	if (!target.closest('.cm-hmd-internal-link'))
+		return null;
+	const view: EditorView | null = EditorView.findFromDOM(target);
+	if (!view)
+		return null;
+	const pos: number = view.posAtDOM(target);
+	const line = view.state.doc.lineAt(pos);
+	const wikilink: RegExp = /\[\[([^\]|]*)(?:\|[^\]]*)?]]/g;
+	for (let match: RegExpExecArray | null; (match = wikilink.exec(line.text));)
+		if (line.from + match.index <= pos && pos <= line.from + match.index + match[0].length)
+			return match[1];
+	return null;
+}
+
+/** Makes terms link targets: the suggester, the highlight in the editor, and the handling of their subpaths */
+export function registerTermLinks(plugin: Plugin, index: GlossaryIndex): void {
+	const app: App = plugin.app;
+	const suggest = new TermLinkSuggest(app, index);
+	plugin.registerEditorSuggest(suggest);
+	// its suggestions include the headings, so it goes before Obsidian's suggester of headings; the others keep their order
+	const suggests: EditorSuggest<unknown>[] | undefined =
+		(app.workspace as unknown as {editorSuggest?: {suggests: EditorSuggest<unknown>[]}}).editorSuggest?.suggests;
+	if (suggests?.includes(suggest)) {
+		suggests.splice(suggests.indexOf(suggest), 1);
+		suggests.unshift(suggest);
+	}
+
+	plugin.registerEditorExtension([highlightField, editorViewTracker]);
+
+	// the note and term of the last link clicked, until its note opens
+	let followed: {path: string, subpath: string, time: number} | null = null;
+	plugin.registerDomEvent(document, 'mousedown', (event: MouseEvent) => {
+		const linktext: string | null = event.target instanceof HTMLElement ? clickedLinktext(event.target) : null;
+		if (!linktext)
+			return;
+		const {path, subpath} = parseLinktext(linktext);
+		const source: TFile | null = app.workspace.getActiveFile();
+		const file: TFile | null = path ? app.metadataCache.getFirstLinkpathDest(path, source?.path ?? '') : source;
+		followed = file && subpath ? {path: file.path, subpath, time: Date.now()} : null;
+		// a link within the note opens no note
+		const view: MarkdownView | null = app.workspace.getActiveViewOfType(MarkdownView);
+		if (followed && view?.file === file) {
+			followed = null;
+			window.setTimeout(() => revealTerm(app, index, view, subpath));
+		}
+	}, true);
+	plugin.registerEvent(app.workspace.on('file-open', (file: TFile | null) => {
+		const link = followed;
+		followed = null;
+		const view: MarkdownView | null = app.workspace.getActiveViewOfType(MarkdownView);
+		if (link && file?.path === link.path && Date.now() - link.time < FOLLOW_MS && view?.file === file)
+			// after Obsidian has set the view's own state
+			window.setTimeout(() => revealTerm(app, index, view, link.subpath));
+	}));
+}
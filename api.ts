@@ -0,0 +1,142 @@
+import {App, EventRef, Events, Plugin, TFile} from 'obsidian';
+import {
+	Block, DefinitionListItem, DefinitionListLine, groupItems, lineContent, parseDefinitionLists, definitionText,
+	termSlug
+} from './parser';
+import {GlossaryEntry, GlossaryIndex} from './glossary';
+
+/* Public API
+ * ==========
+ * Other plugins get structured access to the definition lists through
+ * the `api` property of the plugin:
+ *
+ *     const api: DefinitionListApi | undefined =
+ *         app.plugins.getPlugin('definition-list')?.api;
+ *     if (api && api.version >= 2) {
+ *         const lists = await api.getDefinitionLists(file);
+ *         const matches = api.findTerm('cryosphere');
+ *         plugin.registerEvent(api.on('changed', file => ...));
+ *         if (!api.ready)
+ *             plugin.registerEvent(api.on('ready', () => ...));
+ *     }
+ *
+ * The types below are the API; the parser's own types may change without
+ * notice. API_VERSION goes up whenever something is added; a change that
+ * breaks existing users would come with a new major version. Line numbers
+ * are 0-based, as in Obsidian's Editor, and ranges include their last line.
+ */
+
+/** The version of the API; 1 is the first, 2 added the 'ready' event */
+export const API_VERSION: number = 2;
+
+export interface ApiTerm {
+	/** the term without its indentation, as Markdown */
+	text: string,
+	/** the anchor of the term, as in [[Note#term]] */
+	slug: string,
+	line: number
+}
+export interface ApiDefinition {
+	/** the definition without its marker, as Markdown, including any lists and nested definition lists */
+	text: string,
+	startLine: number,
+	endLine: number,
+	/** the definition lists nested inside the definition */
+	lists: ApiDefinitionList[]
+}
+export interface ApiItem {
+	terms: ApiTerm[],
+	definitions: ApiDefinition[]
+}
+export interface ApiDefinitionList {
+	startLine: number,
+	endLine: number,
+	/** 0 for a top-level list, 1 for a list inside a definition, etc. */
+	depth: number,
+	/** from an attribute line like `{.compact #glossary}` before the list */
+	id: string | null,
+	classes: string[],
+	items: ApiItem[]
+}
+export interface ApiTermMatch {
+	term: string,
+	/** the text of each definition, as Markdown */
+	definitions: string[],
+	file: TFile,
+	line: number
+}
+
+/** Converts the items of a (nested) definition list */
+function apiItems(items: DefinitionListItem[], depth: number): ApiItem[] {
+	return items.map(item => ({
+		terms: item.terms.map(term => {
+			const text: string = lineContent(term).trim();
+			return {text, slug: termSlug(text), line: term.number};
+		}),
+		definitions: item.definitions.map(definition => {
+			const nested: DefinitionListLine[] = definition.lines.filter(line => line.depth > depth);
+			return {
+				text: definitionText(definition),
+				startLine: definition.lines[0].number,
+				endLine: definition.lines[definition.lines.length - 1].number,
+				lists: nested.length ? [apiList(nested, groupItems(nested, depth + 1), depth + 1, null)] : []
+			};
+		})
+	}));
+}
+
+function apiList(lines: DefinitionListLine[], items: DefinitionListItem[], depth: number,
+                 block: Block | null): ApiDefinitionList {
+	return {
+		startLine: lines[0].number,
+		endLine: lines[lines.length - 1].number,
+		depth,
+		id: block?.attributes?.id ?? null,
+		classes: block?.attributes?.classes ?? [],
+		items: apiItems(items, depth)
+	};
+}
+
+/**
+ * The API, available as `plugin.api`. Triggers 'changed' with the TFile
+ * whose definition lists have changed, including when it's been deleted
+ * or renamed, and 'ready' once every note of the vault has been read.
+ */
+export class DefinitionListApi extends Events {
+	public readonly version: number = API_VERSION;
+	private readonly app: App;
+	private readonly index: GlossaryIndex;
+
+	constructor(plugin: Plugin, index: GlossaryIndex) {
+		super();
+		this.app = plugin.app;
+		this.index = index;
+		plugin.registerEvent(index.on('file-changed', (file: TFile) => this.trigger('changed', file)));
+		plugin.registerEvent(index.on('ready', () => this.trigger('ready')));
+	}
+
+	on(name: 'changed', callback: (file: TFile) => unknown, ctx?: unknown): EventRef;
+	on(name: 'ready', callback: () => unknown, ctx?: unknown): EventRef;
+	on(name: 'changed' | 'ready', callback: ((file: TFile) => unknown) | (() => unknown), ctx?: unknown): EventRef {
+		return super.on(name, callback as (...data: unknown[]) => unknown, ctx);
+	}
+
+	/** true once every note of the vault has been read, so that findTerm sees all terms */
+	get ready(): boolean {
+		return this.index.ready;
+	}
+
+	/** The top-level definition lists of the note, in document order */
+	async getDefinitionLists(file: TFile): Promise<ApiDefinitionList[]> {
+		const text: string = await this.app.vault.cachedRead(file);
+		return parseDefinitionLists(text, 0).map(block => apiList(block.lines, block.items, 0, block));
+	}
+
+	/** The terms in the vault with this name; case and formatting don't matter, as in links to terms */
+	findTerm(name: string): ApiTermMatch[] {
+		const slug: string = termSlug(name);
+		return this.index.entries()
+			.filter((entry: GlossaryEntry) => termSlug(entry.term) === slug)
+			.map(({term, definitions, file, line}) => ({term, definitions: [...definitions], file, line}));
+	}
+}
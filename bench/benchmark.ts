@@ -0,0 +1,104 @@
+import {performance} from 'perf_hooks';
+import {Block, LineSource, SourceLine, parseLines, sourceLines, updateBlocks} from '../parser';
+
+/* Benchmark of incremental block updates
+ * ======================================
+ * Compares re-parsing the whole document after every edit (what the editor
+ * used to do for most edits) with updateBlocks(), on synthetic documents of
+ * several thousand lines. Every edit is checked: the incrementally updated
+ * blocks must equal those of a full parse.
+ * Run with `npm run bench`.
+ */
+
+const SIZES: number[] = [1000, 5000, 20000];
+const EDITS: number = 200;
+
+/** A document of (nested) definition lists, paragraphs, code blocks, formulas, headers and callouts */
+function syntheticDocument(lines: number): string[] {
+	const doc: string[] = [];
+	for (let i = 0; doc.length < lines; i++) {
+		switch (i % 10) {
+			case 0: doc.push(`## Section ${i}`, ''); break;
+			case 1: doc.push(`term ${i}`, `:   definition of term ${i}`, `:   more about term ${i}`,
+				`* a list item`, `* another list item`, ''); break;
+			case 2: doc.push(`A paragraph of ordinary text, number ${i}.`, 'It has two lines.', ''); break;
+			case 3: doc.push('```', `code ${i}`, ':   not a marker inside code', '```'); break;
+			case 4: doc.push(`abbreviation ${i} = expansion`, `other ${i}`, ':   ', ''); break;
+			case 5: doc.push('$$', `x_${i} = y^2`, '$$', `:   continued after formula ${i}`, ''); break;
+			case 6: doc.push(`long term ${i}`, `:   first paragraph`, '', `    second paragraph ${i}`, ''); break;
+			case 7: doc.push(`loose term ${i}`, '', `:   definition after an empty line`, ''); break;
+			case 8: doc.push(`outer term ${i}`, `:   definition with sub-terms`, `    sub-term ${i}`,
+				`    :   nested definition`, `        still nested`, `:   outer again`, ''); break;
+			case 9: doc.push(`> [!note] Glossary ${i}`, `> quoted term ${i}`, `> :   quoted definition`, '>',
+				`> > deeper term`, `> > :   deeper definition`, ''); break;
+		}
+	}
+	return doc.slice(0, lines);
+}
+
+/** The kinds of edit a user makes while typing */
+type Edit = (doc: string[], at: number) => {fromLine: number, toLine: number};
+const EDIT_KINDS: [string, Edit][] = [
+	['type a character', (doc, at) => {
+		doc[at - 1] += 'x';
+		return {fromLine: at, toLine: at};
+	}],
+	['press Enter', (doc, at) => {
+		doc.splice(at, 0, '');
+		return {fromLine: at, toLine: at};
+	}],
+	['delete a line', (doc, at) => {
+		doc.splice(at - 1, 1);
+		return {fromLine: at - 1, toLine: at};
+	}],
+	['add a definition marker', (doc, at) => {
+		doc[at - 1] = ':   ' + doc[at - 1];
+		return {fromLine: at, toLine: at};
+	}],
+	['open a code block', (doc, at) => {
+		doc.splice(at, 0, '```');
+		return {fromLine: at, toLine: at};
+	}]
+];
+
+function toSource(doc: string[]): LineSource {
+	const lines: SourceLine[] = sourceLines(doc.join('\n'));
+	return {lines: lines.length, line: (lnr: number) => lines[lnr - 1]};
+}
+
+function sameBlocks(a: Block[], b: Block[]): boolean {
+	const strip = (blocks: Block[]) => JSON.stringify(blocks.map(block => ({
+		firstLine: block.firstLine, lastLine: block.lastLine, special: block.special,
+		roles: block.lines.map(line => `${line.number}:${line.role}:${line.depth}:${line.quote}:${line.markerLength}`)
+	})));
+	return strip(a) === strip(b);
+}
+
+for (const size of SIZES) {
+	for (const [name, edit] of EDIT_KINDS) {
+		const doc: string[] = syntheticDocument(size);
+		const blocks: Block[] = parseLines(sourceLines(doc.join('\n')));
+		let fullTime: number = 0, incrementalTime: number = 0;
+		for (let e = 0; e < EDITS; e++) {
+			const linesBefore: number = doc.length;
+			const at: number = 2 + Math.floor((e * 7919) % (doc.length - 2));
+			const {fromLine, toLine} = edit(doc, at);
+			// the line types come from the text here; that's the same for both methods
+			const source: LineSource = toSource(doc);
+
+			let start: number = performance.now();
+			const full: Block[] = parseLines(Array.from({length: source.lines}, (_, i) => source.line(i + 1)));
+			fullTime += performance.now() - start;
+
+			start = performance.now();
+			updateBlocks(blocks, {fromLine, toLine, delta: doc.length - linesBefore}, source);
+			incrementalTime += performance.now() - start;
+
+			if (!sameBlocks(blocks, full))
+				throw new Error(`${name} at line ${at} of ${size}: incremental update differs from full parse`);
+		}
+		console.log(`${String(size).padStart(6)} lines, ${name.padEnd(24)} ` +
+			`full: ${(fullTime / EDITS).toFixed(3)} ms/edit, ` +
+			`incremental: ${(incrementalTime / EDITS).toFixed(3)} ms/edit`);
+	}
+}
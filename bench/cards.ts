@@ -0,0 +1,49 @@
+import {strict as assert} from 'assert';
+import {Flashcard, flashcardsOf} from '../cards';
+import {report, test} from './harness';
+
+/* Tests of the flashcards
+ * =======================
+ * flashcardsOf() on short notes: the front and back of the cards, and ids
+ * that survive edits. Run with `npm test`.
+ */
+
+function ids(lines: string[]): string[] {
+	return flashcardsOf(lines.join('\n'), []).map(card => card.id);
+}
+
+test('a card per item, terms on the front and definitions on the back', () => {
+	const cards: Flashcard[] = flashcardsOf(['**term**', 'synonym', ':   first', ':   second'].join('\n'), ['tag']);
+	assert.equal(cards.length, 1);
+	assert.equal(cards[0].front, '<strong>term</strong><br>synonym');
+	assert.equal(cards[0].back, '<ol><li><div>first</div></li><li><div>second</div></li></ol>');
+	assert.deepEqual(cards[0].tags, ['tag']);
+});
+
+test('items without a term or a definition get no card', () => {
+	assert.deepEqual(ids(['$$', 'x', '$$', ':   definition without a term']), []);
+	assert.equal(ids(['term', ':   definition', 'term without a definition']).length, 1);
+});
+
+test('the id stays the same when a definition is edited', () => {
+	const [before]: string[] = ids(['term', ':   the first version']);
+	const [after]: string[] = ids(['term', ':   the second version', ':   and another definition']);
+	assert.equal(after, before);
+});
+
+test('the id stays the same when other items are added or the note is reordered', () => {
+	const [, id]: string[] = ids(['other', ':   definition', 'term', ':   definition']);
+	assert.equal(ids(['term', ':   definition', 'new', ':   definition'])[0], id);
+});
+
+test('items with the same first term get different ids', () => {
+	const [first, second]: string[] = ids(['term', ':   definition', '', 'term', ':   definition']);
+	assert.notEqual(first, second);
+	assert.equal(ids(['term', ':   one', '', 'term', ':   two'])[1], second);
+});
+
+test('terms with different text get different ids', () => {
+	assert.notEqual(ids(['one', ':   definition'])[0], ids(['two', ':   definition'])[0]);
+});
+
+report('Flashcards');
@@ -0,0 +1,95 @@
+import {MarkerOptions} from '../../parser';
+
+/* The examples of doc/Specifications.md
+ * =====================================
+ * A document for every example of the introduction, the rules and the
+ * examples section, each with at least one definition list. Some need the
+ * Pandoc markers of the settings.
+ */
+
+export interface SpecExample {
+	name: string,
+	lines: string[],
+	markers?: MarkerOptions
+}
+
+export const SPEC_EXAMPLES: SpecExample[] = [
+	{
+		name: 'terms without definition text',
+		lines: ['LOL = laughing out loud', 'slang', ':   informal language']
+	},
+	{
+		name: 'multiple definition-text blocks',
+		lines: ['standard deviation', ':   a measure of spread', ':   the root of the variance']
+	},
+	{
+		name: 'a list as part of definition text',
+		lines: ['local government', ':   the government of part of a country', '* state', '* province', '1. county']
+	},
+	{
+		name: 'a definition continued below a formula',
+		lines: [
+			'standard deviation',
+			':   the square root of',
+			'$$',
+			'\\sigma^2',
+			'$$',
+			':   so it has the unit of the data',
+			'variance',
+			':   the mean squared deviation'
+		]
+	},
+	{
+		name: 'Rule 1: the marker is a colon and three spaces',
+		lines: ['term', ':   definition']
+	},
+	{
+		name: 'Rule 1: Pandoc markers',
+		lines: ['term', ': definition', '~   definition', '  :   definition', ':\tdefinition'],
+		markers: {markerTilde: true, markerSpace: true, markerTab: true, markerIndented: true}
+	},
+	{
+		name: 'Rule 2: lists between other blocks',
+		lines: [
+			'# Header', 'term', ':   definition', '',
+			'paragraph', '',
+			'term', ':   definition', '```', ':   code', '```', '',
+			'---', '', 'term', '', ':   definition after an empty line'
+		]
+	},
+	{
+		name: 'Rule 2: empty lines before indented lines',
+		lines: ['term', ':   first paragraph', '', '    second paragraph', '', 'paragraph']
+	},
+	{
+		name: 'Rule 2: definition lists in a block quote or callout',
+		lines: ['> term', '> :   definition', '', '> [!note] Glossary', '> term', '> :   definition']
+	},
+	{
+		name: 'Rule 3: every line is a term or definition text',
+		lines: ['term', 'another term', ':   definition', '* list item', 'next term', ':   definition']
+	},
+	{
+		name: 'Rule 3: a line longer than 100 characters',
+		lines: ['x'.repeat(100), ':   definition', 'y'.repeat(101)]
+	},
+	{
+		name: 'Rule 3: a nested definition list',
+		lines: [
+			'outer term',
+			':   outer definition',
+			'    inner term',
+			'    :   inner definition',
+			'    more inner text',
+			':   second outer definition'
+		]
+	},
+	{
+		name: 'Rule 3: an attribute line',
+		lines: ['{.compact #glossary lang=en onclick=alert(1)}', 'term', ':   definition']
+	},
+	{
+		name: 'Example: abbreviations ended by an empty marker',
+		lines: ['LOL = laughing out loud', 'OMG = oh my God', 'ROFL = rolling on the floor laughing', ':    ']
+	}
+];
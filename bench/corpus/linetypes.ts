@@ -0,0 +1,156 @@
+import {LineType} from '../../parser';
+
+/* Regression corpus of line types
+ * ===============================
+ * Documents with, for every line, the names of the syntax nodes that
+ * Obsidian's editor reports at its start (innermost first, without the
+ * Document node) and the LineType it must get. The names are those seen in
+ * Obsidian; a line with no names is one that the tree explains as Document
+ * only, so it's classified by its text. A fourth element is the LineType
+ * that the text alone gives (textLineClassifier, used in Reading View),
+ * where it differs from the editor's.
+ */
+
+/** The text of a line, its node names, its LineType, and its LineType from the text if that differs */
+export type CorpusLine = [string, string[], LineType, LineType?];
+export interface CorpusDocument {
+	name: string,
+	lines: CorpusLine[]
+}
+
+const LIST = ['formatting_formatting-list_formatting-list-ul_list-1', 'HyperMD-list-line_HyperMD-list-line-1'];
+const LIST_OL = ['formatting_formatting-list_formatting-list-ol_list-1', 'HyperMD-list-line_HyperMD-list-line-1'];
+const TASK = ['formatting_formatting-list_formatting-list-ul_list-1',
+	'HyperMD-list-line_HyperMD-list-line-1_HyperMD-task-line'];
+const CODE_BEGIN = ['HyperMD-codeblock_HyperMD-codeblock-begin_HyperMD-codeblock-begin-bg_HyperMD-codeblock-bg'];
+const CODE = ['hmd-codeblock_variable', 'HyperMD-codeblock_HyperMD-codeblock-bg'];
+const CODE_END = ['HyperMD-codeblock_HyperMD-codeblock-bg_HyperMD-codeblock-end_HyperMD-codeblock-end-bg'];
+const MATH_BEGIN = ['formatting_formatting-math_formatting-math-begin_keyword_math_math-block'];
+const MATH = ['math_variable-2'];
+const MATH_END = ['formatting_formatting-math_formatting-math-end_keyword_math_math-'];
+const HEADER = (level: number) => [
+	`formatting_formatting-header_formatting-header-${level}_header_header-${level}`,
+	`HyperMD-header_HyperMD-header-${level}`
+];
+const QUOTE = ['formatting_formatting-quote_formatting-quote-1_quote_quote-1', 'HyperMD-quote_HyperMD-quote-1'];
+const CALLOUT = ['formatting_formatting-quote_formatting-quote-1_quote_quote-1',
+	'HyperMD-callout_HyperMD-quote_HyperMD-quote-1'];
+const TABLE = ['HyperMD-table-2_HyperMD-table-row_HyperMD-table-row-0'];
+const FRONTMATTER = ['hmd-frontmatter', 'HyperMD-frontmatter'];
+const COMMENT = ['comment'];
+
+export const LINE_TYPE_CORPUS: CorpusDocument[] = [
+	{
+		name: 'definition list with a list in a definition',
+		lines: [
+			['local government', [], 'normal'],
+			[':   the government of part of a country', [], 'normal'],
+			['* state', LIST, 'listItem'],
+			['1. county', LIST_OL, 'listItem'],
+			['* a list item that the tree reports as Document', [], 'listItem'],
+			['- [ ] a task', TASK, 'contiguousBlock']
+		]
+	},
+	{
+		name: 'definition continued after code and formula blocks',
+		lines: [
+			['standard deviation', [], 'normal'],
+			[':   the square root of', [], 'normal'],
+			['```python', CODE_BEGIN, 'blockStart'],
+			[':   not a marker inside code', CODE, 'block'],
+			['```', CODE_END, 'blockEnd'],
+			['$$', MATH_BEGIN, 'blockStart'],
+			['\\sigma^2', MATH, 'block'],
+			['$$', MATH_END, 'blockEnd'],
+			[':   continued', [], 'normal'],
+			['~~~', CODE_BEGIN, 'blockStart'],
+			['tilde fence', CODE, 'block'],
+			['~~~', CODE_END, 'blockEnd']
+		]
+	},
+	{
+		name: 'frontmatter, headers and horizontal lines',
+		lines: [
+			['---', FRONTMATTER, 'blockStart'],
+			['tags: glossary', FRONTMATTER, 'block'],
+			[':   not a marker in frontmatter', FRONTMATTER, 'block'],
+			['---', FRONTMATTER, 'blockEnd'],
+			['# Glossary', HEADER(1), 'contiguousBlock'],
+			['term', [], 'normal'],
+			[':   definition', [], 'normal'],
+			['###### Small header', HEADER(6), 'contiguousBlock'],
+			['***', ['hr'], 'contiguousBlock'],
+			['- - -', [], 'contiguousBlock']
+		]
+	},
+	{
+		name: 'quotes, callouts and tables',
+		lines: [
+			['> quoted term', QUOTE, 'contiguousBlock'],
+			['> :   quoted definition', QUOTE, 'contiguousBlock'],
+			['> [!note] Callout', CALLOUT, 'contiguousBlock'],
+			['> callout text', CALLOUT, 'contiguousBlock'],
+			['| term | definition |', TABLE, 'contiguousBlock'],
+			['| ---- | ---------- |', TABLE, 'contiguousBlock']
+		]
+	},
+	{
+		name: 'images, embeds and footnotes',
+		lines: [
+			['![alt](image.png)', ['formatting_formatting-image_image_image-marker'], 'contiguousBlock'],
+			['![[Note#section]]', ['formatting-link_formatting-link-start_formatting-embed'], 'contiguousBlock'],
+			['[^1]: a footnote', ['footref_HyperMD-footnote_hmd-barelink', 'HyperMD-footnote'], 'contiguousBlock'],
+			['![[diagram.png]]', [], 'contiguousBlock']
+		]
+	},
+	{
+		name: 'comments and HTML',
+		lines: [
+			['%%', COMMENT, 'blockStart'],
+			[':   not a marker in a comment', COMMENT, 'block'],
+			// the node names don't tell a closing %% from an opening one; parseLines closes the open comment with it
+			['%%', COMMENT, 'blockStart', 'blockEnd'],
+			['%% one line %%', COMMENT, 'contiguousBlock'],
+			['<!--', COMMENT, 'blockStart'],
+			['hidden', COMMENT, 'block'],
+			['-->', COMMENT, 'blockEnd'],
+			['<!-- one line -->', COMMENT, 'contiguousBlock'],
+			['', [], 'normal'],
+			['<div class="note">', [], 'contiguousBlock'],
+			// the text follows an HTML block up to the next empty line; the editor only sees its first line
+			[':   inside HTML', [], 'normal', 'contiguousBlock'],
+			['</div>', [], 'contiguousBlock']
+		]
+	},
+	{
+		name: 'lines that look special but are not',
+		lines: [
+			['#hashtag, not a header', [], 'normal'],
+			['a | b', [], 'normal'],
+			['-- two dashes', [], 'normal'],
+			['*emphasis*, not a list', [], 'normal'],
+			['[link](target): not a footnote', [], 'normal']
+		]
+	}
+];
+
+/**
+ * The node names that the editor classified before the mapping of classes,
+ * with their line types then; they must still be classified the same way
+ */
+export const BASELINE_NODE_NAMES: [string, LineType][] = [
+	['HyperMD-codeblock_HyperMD-codeblock-begin_HyperMD-codeblock-begin-bg_HyperMD-codeblock-bg', 'blockStart'],
+	['formatting_formatting-math_formatting-math-begin_keyword_math_math-block', 'blockStart'],
+	['hmd-codeblock_variable', 'block'],
+	['hmd-codeblock_keyword', 'block'],
+	['math_variable-2', 'block'],
+	['HyperMD-codeblock_HyperMD-codeblock-bg_HyperMD-codeblock-end_HyperMD-codeblock-end-bg', 'blockEnd'],
+	['formatting_formatting-math_formatting-math-end_keyword_math_math-', 'blockEnd'],
+	['HyperMD-header_HyperMD-header-3', 'contiguousBlock'],
+	['HyperMD-quote_HyperMD-quote-2', 'contiguousBlock'],
+	['HyperMD-table-2_HyperMD-table-row_HyperMD-table-row-1', 'contiguousBlock'],
+	['formatting_formatting-image_image_image-marker', 'contiguousBlock'],
+	['HyperMD-list-line_HyperMD-list-line-1_HyperMD-task-line', 'contiguousBlock'],
+	['hr', 'contiguousBlock'],
+	['HyperMD-list-line_HyperMD-list-line-2', 'listItem']
+];
@@ -0,0 +1,124 @@
+import {strict as assert} from 'assert';
+import {JSDOM} from 'jsdom';
+import {Block, DefinitionListLine, configureMarkers, containsMarker, parseMarkdown, quoteLength} from '../parser';
+import {fillDefinitionList} from '../rendering';
+import {SPEC_EXAMPLES} from './corpus/examples';
+import {report, test} from './harness';
+
+/* Tests of the rendered definition lists
+ * ======================================
+ * Every example of doc/Specifications.md rendered as Obsidian does in
+ * Reading View, a <p> per paragraph with its lines separated by <br>, and
+ * then turned into a <dl> by rendering.ts, in the DOM of jsdom. A <dl> may
+ * only have <dt> and <dd> children. Run with `npm test`.
+ */
+
+const {document} = new JSDOM().window;
+const DL_CHILDREN: string[] = ['DT', 'DD'];
+
+/** The text of the line without its `>`, if it's in a quote */
+function unquoted(line: DefinitionListLine, source: string[]): string {
+	const text: string = source[line.number - 1];
+	return text.slice(quoteLength(text));
+}
+
+/** The paragraphs of a definition list as Markdown renders them; lists and indented code are left out */
+function paragraphs(block: Block, source: string[]): DefinitionListLine[][] {
+	const result: DefinitionListLine[][] = [];
+	let paragraph: DefinitionListLine[] = [];
+	for (const line of block.lines) {
+		const text: string = unquoted(line, source);
+		const afterEmpty: boolean = line.number > block.firstLine && !source[line.number - 2].trim();
+		if (line.role === 'empty' || line.role === 'listItem' || line.role === 'other' ||
+			(afterEmpty && /^( {4}|\t)/.test(text))) {
+			if (paragraph.length)
+				result.push(paragraph);
+			paragraph = [];
+		}
+		else
+			paragraph.push(line);
+	}
+	if (paragraph.length)
+		result.push(paragraph);
+	return result;
+}
+
+/** The <p> that Obsidian renders for the lines of a paragraph */
+function renderParagraph(lines: string[]): HTMLParagraphElement {
+	const par: HTMLParagraphElement = document.createElement('p');
+	lines.forEach((line, i) => {
+		if (i)
+			par.append(document.createElement('br'));
+		par.append(document.createTextNode(i ? '\n' + line : line));
+	});
+	return par;
+}
+
+interface Rendered {
+	defList: HTMLDListElement,
+	/** the number of terms in the paragraph, according to the parser */
+	terms: number
+}
+
+/** The <dl> of every paragraph with a marker in the document, as the post-processor makes them */
+function renderDefinitionLists(lines: string[]): Rendered[] {
+	const rendered: Rendered[] = [];
+	for (const block of parseMarkdown(lines.join('\n')))
+		if (block.isDefinitionList)
+			for (const paragraph of paragraphs(block, lines)) {
+				// Markdown leaves out the indentation at the start of a line of a paragraph
+				const par: HTMLParagraphElement = renderParagraph(
+					paragraph.map(line => unquoted(line, lines).replace(/^\s+/, '')));
+				if (!containsMarker(par.innerHTML))
+					continue;
+				const defList: HTMLDListElement = document.createElement('dl');
+				fillDefinitionList(par.childNodes, defList, lines);
+				rendered.push({defList, terms: paragraph.filter(line => line.role === 'term').length});
+			}
+	return rendered;
+}
+
+for (const example of SPEC_EXAMPLES)
+	test(example.name, () => {
+		if (example.markers)
+			configureMarkers(example.markers);
+		try {
+			const rendered: Rendered[] = renderDefinitionLists(example.lines);
+			assert.ok(rendered.length, 'no definition list');
+			for (const {defList, terms} of rendered) {
+				const all: HTMLDListElement[] = [defList, ...Array.from(defList.querySelectorAll('dl'))];
+				for (const dl of all) {
+					assert.ok(dl.children.length, `empty <dl> in ${defList.outerHTML}`);
+					for (const child of Array.from(dl.children))
+						assert.ok(DL_CHILDREN.includes(child.tagName), `<${child.tagName}> in ${defList.outerHTML}`);
+				}
+				assert.equal(defList.querySelectorAll('dt').length, terms, defList.outerHTML);
+			}
+		} finally {
+			configureMarkers({markerTilde: false, markerSpace: false, markerTab: false, markerIndented: false});
+		}
+	});
+
+test('the attribute line goes on the <dl>, without event handlers', () => {
+	const [{defList}]: Rendered[] = renderDefinitionLists([
+		'{.compact #glossary lang=en onclick=x}', 'term', ':   definition'
+	]);
+	assert.equal(defList.id, 'glossary');
+	assert.ok(defList.classList.contains('compact'));
+	assert.equal(defList.getAttribute('lang'), 'en');
+	assert.equal(defList.getAttribute('onclick'), null);
+	assert.deepEqual(Array.from(defList.children).map(child => child.tagName), ['DT', 'DD']);
+});
+
+test('a nested definition list is inside the <dd> it belongs to', () => {
+	const [{defList}]: Rendered[] = renderDefinitionLists([
+		'outer term', ':   outer definition', '    inner term', '    :   inner definition', ':   second outer definition'
+	]);
+	assert.deepEqual(Array.from(defList.children).map(child => child.tagName), ['DT', 'DD', 'DD']);
+	const inner: HTMLDListElement | null = defList.querySelector(':scope > dd > dl');
+	assert.ok(inner);
+	assert.deepEqual(Array.from(inner.children).map(child => child.tagName), ['DT', 'DD']);
+	assert.equal(inner.querySelector('dt').textContent.trim(), 'inner term');
+});
+
+report('Rendered definition lists');
@@ -0,0 +1,44 @@
+import {strict as assert} from 'assert';
+import {EXPORT_FORMATS, ExportFormat} from '../exporters';
+import {parseDefinitionLists} from '../parser';
+import {report, test} from './harness';
+
+/* Tests of the export formats
+ * ===========================
+ * The export of short definition lists, mostly the escaping that keeps the
+ * exported text valid. Run with `npm test`.
+ */
+
+function exported(name: string, lines: string[]): string {
+	const format: ExportFormat = EXPORT_FORMATS.find(f => f.name === name);
+	return format.convert(parseDefinitionLists(lines.join('\n')));
+}
+
+const LATEX: string = 'LaTeX description environment';
+
+test('LaTeX: a ] in a term stays in the label', () => {
+	assert.equal(exported(LATEX, ['Array [index]', ':   an element']), [
+		'\\begin{description}',
+		'  \\item[{Array [index]}]',
+		'    an element',
+		'\\end{description}',
+		''
+	].join('\n'));
+});
+
+test('LaTeX: special characters are escaped', () => {
+	assert.match(exported(LATEX, ['term', ':   50% of $x & y_1 \\ ~^#{}']),
+		/50\\% of \\\$x \\& y\\_1 \\textbackslash\{\} \\~\{\}\\\^\{\}\\#\\\{\\\}/);
+});
+
+test('LaTeX: % and # in a link are escaped', () => {
+	assert.match(exported(LATEX, ['term', ':   see [the spec](https://example.com/a%20b#part)']),
+		/\\href\{https:\/\/example\.com\/a\\%20b\\#part\}\{the spec\}/);
+});
+
+test('HTML: event handlers in the attribute line are left out', () => {
+	const html: string = exported('HTML <dl>', ['{.compact onclick=alert}', 'term', ':   definition']);
+	assert.ok(html.startsWith('<dl class="compact">'), html);
+});
+
+report('Export formats');
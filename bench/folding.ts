@@ -0,0 +1,50 @@
+import {strict as assert} from 'assert';
+import {FoldableItem, foldableItems} from '../foldable';
+import {parseMarkdown} from '../parser';
+import {report, test} from './harness';
+
+/* Tests of the foldable items
+ * ===========================
+ * foldableItems() on short notes, with the items written as
+ * `slug termLine-lastLine`. Run with `npm test`.
+ */
+
+function items(lines: string[]): string[] {
+	return foldableItems(parseMarkdown(lines.join('\n')))
+		.map((item: FoldableItem) => `${item.slug} ${item.termLine}-${item.lastLine}`);
+}
+
+test('the fold of an item goes from its last term to its last definition', () => {
+	assert.deepEqual(items(['**First** term', 'synonym', ':   one', ':   two', '', 'paragraph']), ['first-term 2-4']);
+});
+
+test('empty lines at the end of a definition are not folded', () => {
+	assert.deepEqual(items(['term', ':   one', '', '    more of one', '', '', 'next', ':   two']), [
+		'term 1-4', 'next 7-8'
+	]);
+});
+
+test('terms without a definition and definitions without a term are not foldable', () => {
+	assert.deepEqual(items(['a', ':   definition', 'b']), ['a 1-2']);
+	assert.deepEqual(items(['```', 'code', '```', ':   definition']), []);
+	assert.deepEqual(items(['# Heading', '', 'paragraph']), []);
+});
+
+test('nested items are foldable, in document order', () => {
+	assert.deepEqual(items([
+		'outer', ':   outer definition', '    inner', '    :   inner definition', ':   second outer definition'
+	]), ['outer 1-5', 'inner 3-4']);
+});
+
+test('items with the same first term get a number', () => {
+	assert.deepEqual(items(['term', ':   one', '', 'Term', ':   two', '', 'other', ':   three', '', 'term', ':   four']), [
+		'term 1-2', 'term-2 4-5', 'other 7-8', 'term-3 10-11'
+	]);
+});
+
+test('the slug of an item stays the same when other items are added before it', () => {
+	const [, after]: string[] = items(['new', ':   definition', 'term', ':   definition']);
+	assert.equal(after.split(' ')[0], items(['term', ':   definition'])[0].split(' ')[0]);
+});
+
+report('Foldable items');
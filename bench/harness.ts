@@ -0,0 +1,35 @@
+/* A minimal test runner for plain Node
+ * ====================================
+ * test() runs a test and records its failure; a test that returns a
+ * Promise fails if it rejects. report() waits for those, prints the
+ * results and sets the exit code, so that `npm test` fails if any test has
+ * failed.
+ */
+
+const failures: string[] = [];
+const pending: Promise<void>[] = [];
+let count: number = 0;
+
+export function test(name: string, body: () => void | Promise<void>): void {
+	count++;
+	const fail = (error: Error): void => {
+		failures.push(`${name}: ${error.message}`);
+	};
+	try {
+		const result: void | Promise<void> = body();
+		if (result)
+			pending.push(result.then(undefined, fail));
+	} catch (error) {
+		fail(error);
+	}
+}
+
+export function report(suite: string): void {
+	Promise.all(pending).then(() => {
+		for (const failure of failures)
+			console.error(failure);
+		console.log(`${suite}: ${count - failures.length} of ${count} tests passed`);
+		if (failures.length)
+			process.exitCode = 1;
+	});
+}
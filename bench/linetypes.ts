@@ -0,0 +1,64 @@
+import {strict as assert} from 'assert';
+import {Block, LineType, parseLines, sourceLines} from '../parser';
+import {NODE_RULES, lineTypeOfNodes, matchingRule} from '../linetypes';
+import {BASELINE_NODE_NAMES, CorpusLine, LINE_TYPE_CORPUS} from './corpus/linetypes';
+import {report, test} from './harness';
+
+/* Tests of the line types
+ * =======================
+ * Checks NODE_RULES and the textLineType fallback against the corpus in
+ * bench/corpus/linetypes.ts: every line of every document must get its
+ * LineType both from the names of its syntax nodes (the editor) and from
+ * the text of the document alone (Reading View). Run with `npm test`.
+ */
+
+test('every rule matches a node with its own classes', () => {
+	for (const rule of NODE_RULES)
+		assert.equal(matchingRule(rule.classes.join('_'))?.construct, rule.construct, rule.construct);
+});
+
+test('rules match classes in any order and among others', () => {
+	assert.equal(matchingRule('HyperMD-codeblock-bg_HyperMD-codeblock-begin_extra-class')?.construct,
+		'fenced code, first line');
+	assert.equal(matchingRule('HyperMD-header-4_HyperMD-header')?.construct, 'header');
+	assert.equal(matchingRule('HyperMD-header-extra'), undefined);
+});
+
+test('the node names of before the mapping keep their line types', () => {
+	for (const [name, type] of BASELINE_NODE_NAMES)
+		assert.equal(lineTypeOfNodes([name], 'text', 2), type, name);
+});
+
+test('the innermost node with a rule decides', () => {
+	assert.equal(lineTypeOfNodes(['unknown_class', 'HyperMD-header_HyperMD-header-1'], '# header', 2),
+		'contiguousBlock');
+	assert.equal(lineTypeOfNodes(['HyperMD-list-line_HyperMD-list-line-1_HyperMD-task-line',
+		'HyperMD-list-line_HyperMD-list-line-1'], '- [ ] task', 2), 'contiguousBlock');
+});
+
+test('a definition list right after a comment, in the editor', () => {
+	const lines: CorpusLine[] = [
+		['%%', ['comment'], 'blockStart'],
+		['hidden', ['comment'], 'block'],
+		['%%', ['comment'], 'blockStart'],
+		['term', [], 'normal'],
+		[':   definition', [], 'normal']
+	];
+	const blocks: Block[] = parseLines(lines.map(([text, nodes], i) =>
+		({number: i + 1, text, type: lineTypeOfNodes(nodes, text, i + 1)})));
+	assert.deepEqual(blocks.map(block => [block.firstLine, block.special, block.isDefinitionList]),
+		[[1, true, false], [4, false, true]]);
+});
+
+for (const document of LINE_TYPE_CORPUS) {
+	test(`corpus, in the editor: ${document.name}`, () =>
+		document.lines.forEach(([text, nodes, type], i) =>
+			assert.equal(lineTypeOfNodes(nodes, text, i + 1), type, `line ${i + 1}: ${text}`)));
+	test(`corpus, from the text: ${document.name}`, () => {
+		const types: LineType[] = sourceLines(document.lines.map(([text]) => text).join('\n')).map(line => line.type);
+		document.lines.forEach(([text, , type, textType], i) =>
+			assert.equal(types[i], textType ?? type, `line ${i + 1}: ${text}`));
+	});
+}
+
+report('Line types');
@@ -0,0 +1,75 @@
+import {strict as assert} from 'assert';
+import {LintIssue, lintText} from '../lintrules';
+import {report, test} from './harness';
+
+/* Tests of the linter
+ * ===================
+ * lintText() on short notes, with the issues written as `line: message`.
+ * Run with `npm test`.
+ */
+
+function issues(lines: string[]): string[] {
+	return lintText(lines.join('\n')).map((issue: LintIssue) => `${issue.line}: ${issue.message}`);
+}
+
+test('a colon with two spaces or a tab below a term is a wrong marker', () => {
+	assert.deepEqual(issues(['term', ':  definition']), [
+		'1: This marker has 2 spaces after the colon instead of three spaces, so it is not a definition marker'
+	]);
+	assert.deepEqual(issues(['term', ':\tdefinition']), [
+		'1: This marker has a tab after the colon instead of three spaces, so it is not a definition marker'
+	]);
+	assert.deepEqual(issues(['term', ': definition', ':  second definition']), [
+		'1: This marker has one space after the colon instead of three spaces, so it is not a definition marker',
+		'2: This marker has 2 spaces after the colon instead of three spaces, so it is not a definition marker'
+	]);
+});
+
+test('the fix of a wrong marker replaces it with a colon and three spaces', () => {
+	const [issue]: LintIssue[] = lintText('term\n:  definition');
+	assert.deepEqual(issue.fix, {label: 'Use a colon and three spaces', line: 1, from: 0, to: 3, insert: ':   '});
+});
+
+test('a wrong marker in a list is not also a term without a definition', () => {
+	assert.deepEqual(issues(['a', ':   definition', 'b', ':  definition']), [
+		'3: This marker has 2 spaces after the colon instead of three spaces, so it is not a definition marker'
+	]);
+});
+
+test('colons that are not below a term are fine', () => {
+	assert.deepEqual(issues([': a paragraph that starts with a colon']), []);
+	assert.deepEqual(issues(['* list item', ':  not below a term']), []);
+	assert.deepEqual(issues(['x'.repeat(101), ':  not below a term']), []);
+	assert.deepEqual(issues(['```', 'term', ':  code', '```']), []);
+});
+
+test('a line with only a marker is fine', () => {
+	assert.deepEqual(issues(['LOL = laughing out loud', 'OMG = oh my God', ':    ']), []);
+});
+
+test('extra whitespace after a marker', () => {
+	assert.deepEqual(issues(['term', ':    definition']), [
+		'1: This marker has 4 spaces after the colon instead of three spaces'
+	]);
+});
+
+test('a term without a definition at the end of a list', () => {
+	const [issue]: LintIssue[] = lintText('a\n:   definition\nb');
+	assert.equal(issue.line, 2);
+	assert.equal(issue.message, 'This term has no definition');
+	assert.deepEqual(issue.fix, {label: 'Add a definition marker', line: 2, from: 1, to: 1, insert: '\n:   '});
+});
+
+test('a line too long to be a term', () => {
+	assert.deepEqual(issues(['term', ':   definition', 'x'.repeat(101), ':   definition']), [
+		'2: This line is longer than 100 characters, so it is shown as definition text, not as a term'
+	]);
+});
+
+test('a definition after a code block', () => {
+	assert.deepEqual(issues(['```', 'code', '```', ':   definition']), [
+		'3: This definition comes after a code block, so it starts a new definition list without a term'
+	]);
+});
+
+report('Linter');
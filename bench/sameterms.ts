@@ -0,0 +1,145 @@
+import {strict as assert} from 'assert';
+import {App, TFile} from 'obsidian';
+import {GlossaryEntry} from '../glossary';
+import {DuplicateSettings, mergeEntries, normaliseTerm} from '../sameterms';
+import {report, test} from './harness';
+
+/* Tests of the duplicate terms
+ * ============================
+ * normaliseTerm() with each of the settings, and mergeEntries() on notes
+ * in a vault of strings: within one item, within one note, across notes,
+ * and when a note has changed. Run with `npm test`.
+ */
+
+const NONE: DuplicateSettings = {
+	duplicateWarnings: true, duplicateIgnoreCase: false, duplicateIgnorePunctuation: false, duplicatePlurals: false
+};
+
+function normalised(term: string, settings: Partial<DuplicateSettings> = {}): string {
+	return normaliseTerm(term, {...NONE, ...settings});
+}
+
+/* A vault of notes as text; `edits` change a note after it has been read, as another plugin might */
+class TestVault {
+	readonly notes: Map<string, string> = new Map();
+	readonly edits: Map<string, string> = new Map();
+	private readonly files: Map<string, TFile> = new Map();
+
+	constructor(notes: Record<string, string[]>) {
+		for (const path of Object.keys(notes))
+			this.notes.set(path, notes[path].join('\n'));
+	}
+
+	file(path: string): TFile {
+		if (!this.files.has(path))
+			this.files.set(path, {path, basename: path.replace(/\.md$/, '')} as TFile);
+		return this.files.get(path);
+	}
+
+	entry(path: string, line: number, term: string): GlossaryEntry {
+		return {term, definitions: [], file: this.file(path), line};
+	}
+
+	lines(path: string): string[] {
+		return this.notes.get(path).split('\n');
+	}
+
+	get app(): App {
+		const vault = {
+			read: async (file: TFile): Promise<string> => {
+				const text: string = this.notes.get(file.path);
+				this.notes.set(file.path, this.edits.get(file.path) ?? text);
+				return text;
+			},
+			process: async (file: TFile, fn: (data: string) => string): Promise<string> => {
+				const text: string = fn(this.notes.get(file.path));
+				this.notes.set(file.path, text);
+				return text;
+			}
+		};
+		return {vault} as unknown as App;
+	}
+}
+
+test('formatting and links are left out', () => {
+	assert.equal(normalised('**Bold** _term_ with `code`'), 'Bold term with code');
+	assert.equal(normalised('[[Climate|climate]] [change](https://example.com)'), 'climate change');
+	assert.equal(normalised('[[Climate change]]'), 'Climate change');
+	assert.equal(normalised('  two   spaces  '), 'two spaces');
+});
+
+test('case and punctuation are left out only if set', () => {
+	assert.equal(normalised('Term'), 'Term');
+	assert.equal(normalised('Term', {duplicateIgnoreCase: true}), 'term');
+	assert.equal(normalised('Mean (average)'), 'Mean (average)');
+	assert.equal(normalised('Mean (average)', {duplicateIgnorePunctuation: true}), 'Mean average');
+	assert.equal(normalised('e.g.', {duplicateIgnorePunctuation: true}), 'e g');
+});
+
+test('plurals are made singular only if set', () => {
+	assert.equal(normalised('categories'), 'categories');
+	const plurals: Partial<DuplicateSettings> = {duplicatePlurals: true};
+	assert.equal(normalised('categories', plurals), 'category');
+	assert.equal(normalised('boxes and churches', plurals), 'box and church');
+	assert.equal(normalised('glossary terms', plurals), 'glossary term');
+	assert.equal(normalised('Fourier series', plurals), 'Fourier series');
+	assert.equal(normalised('fake news', plurals), 'fake news');
+	assert.equal(normalised('glass virus analysis gas', plurals), 'glass virus analysis gas');
+});
+
+test('merging within one item removes only the other term', async () => {
+	const vault = new TestVault({'a.md': ['term', 'Term', ':   definition']});
+	const count: number = await mergeEntries(vault.app, vault.entry('a.md', 0, 'term'), [vault.entry('a.md', 1, 'Term')]);
+	assert.equal(count, 0);
+	assert.deepEqual(vault.lines('a.md'), ['term', ':   definition']);
+});
+
+test('merging within one note adds the new definitions and removes the other item', async () => {
+	const vault = new TestVault({'a.md': [
+		'term', ':   one', '', 'other', ':   two', '', 'Term', ':   three', ':   One', '', 'end'
+	]});
+	const count: number = await mergeEntries(vault.app, vault.entry('a.md', 0, 'term'), [vault.entry('a.md', 6, 'Term')]);
+	assert.equal(count, 1);
+	assert.deepEqual(vault.lines('a.md'), ['term', ':   one', ':   three', '', 'other', ':   two', '', '', 'end']);
+});
+
+test('merging across notes puts the definitions in the form of the target', async () => {
+	const vault = new TestVault({
+		'a.md': ['> term', '> :   one'],
+		'b.md': ['intro', '', 'term', 'synonym', ':   two', '', '    more of two']
+	});
+	const count: number = await mergeEntries(vault.app, vault.entry('a.md', 0, 'term'), [vault.entry('b.md', 2, 'term')]);
+	assert.equal(count, 1);
+	assert.deepEqual(vault.lines('a.md'), ['> term', '> :   one', '> :   two', '>', '>     more of two']);
+	assert.deepEqual(vault.lines('b.md'), ['intro', '', 'synonym', ':   two', '', '    more of two']);
+});
+
+test('merging into a nested item indents the definitions', async () => {
+	const vault = new TestVault({
+		'a.md': ['outer', ':   outer definition', '    term', '    :   one'],
+		'b.md': ['term', ':   two']
+	});
+	await mergeEntries(vault.app, vault.entry('a.md', 2, 'term'), [vault.entry('b.md', 0, 'term')]);
+	assert.deepEqual(vault.lines('a.md'), ['outer', ':   outer definition', '    term', '    :   one', '    :   two']);
+	assert.deepEqual(vault.lines('b.md'), ['']);
+});
+
+test('nothing is changed if a term is no longer on its line', async () => {
+	const vault = new TestVault({'a.md': ['term', ':   one'], 'b.md': ['other', ':   two', 'term', ':   three']});
+	await assert.rejects(mergeEntries(vault.app, vault.entry('a.md', 0, 'term'), [vault.entry('b.md', 0, 'term')]),
+		{message: '"term" is no longer on line 1 of b.md'});
+	assert.deepEqual(vault.lines('a.md'), ['term', ':   one']);
+	assert.deepEqual(vault.lines('b.md'), ['other', ':   two', 'term', ':   three']);
+});
+
+test('a note that is changed during the merge is left as it is', async () => {
+	const vault = new TestVault({'a.md': ['term', ':   one'], 'b.md': ['term', ':   two']});
+	vault.edits.set('b.md', 'term\n:   two, edited');
+	await assert.rejects(mergeEntries(vault.app, vault.entry('a.md', 0, 'term'), [vault.entry('b.md', 0, 'term')]),
+		{message: 'b.md was changed during the merge'});
+	// the target is changed first, so no definition is lost
+	assert.deepEqual(vault.lines('a.md'), ['term', ':   one', ':   two']);
+	assert.deepEqual(vault.lines('b.md'), ['term', ':   two, edited']);
+});
+
+report('Duplicate terms');
@@ -0,0 +1,243 @@
+import {strict as assert} from 'assert';
+import {
+	Block, DefinitionListLine, LineRole, configureMarkers, lineContent, parseDefinitionLists, parseMarkdown
+} from '../parser';
+import {report, test} from './harness';
+
+/* Tests of the examples in doc/Specifications.md
+ * =============================================
+ * Every example of the rules, parsed by parser.ts under plain Node. A line's
+ * role is written as one character: T term, D definition, C continuation,
+ * L list item, E empty line in a definition, A attribute line, and . for a
+ * line outside any definition list. Run with `npm test`.
+ */
+
+const ROLE_CODES: Record<LineRole, string> = {
+	term: 'T', definition: 'D', continuation: 'C', listItem: 'L', empty: 'E', attributes: 'A', other: '.'
+};
+
+/** The role of every line of the document, as a string of role codes; empty lines around a list are outside it */
+function roles(lines: string[]): string {
+	const codes: string[] = lines.map(() => '.');
+	for (const block of parseMarkdown(lines.join('\n')))
+		if (block.isDefinitionList) {
+			const inside: DefinitionListLine[] = block.lines.slice();
+			while (inside.length && inside[0].role === 'empty')
+				inside.shift();
+			while (inside.length && inside[inside.length - 1].role === 'empty')
+				inside.pop();
+			for (const line of inside)
+				codes[line.number - 1] = ROLE_CODES[line.role];
+		}
+	return codes.join('');
+}
+
+/* Introduction */
+
+test('terms without definition text', () => {
+	assert.equal(roles([
+		'LOL = laughing out loud',
+		'slang',
+		':   informal language'
+	]), 'TTD');
+});
+
+test('multiple definition-text blocks', () => {
+	const lines: string[] = ['standard deviation', ':   a measure of spread', ':   the root of the variance'];
+	assert.equal(roles(lines), 'TDD');
+	const [block]: Block[] = parseDefinitionLists(lines.join('\n'));
+	assert.equal(block.items.length, 1);
+	assert.equal(block.items[0].definitions.length, 2);
+});
+
+test('a list as part of definition text', () => {
+	assert.equal(roles([
+		'local government',
+		':   the government of part of a country',
+		'* state',
+		'* province',
+		'1. county'
+	]), 'TDLLL');
+});
+
+test('a definition continued below a formula', () => {
+	assert.equal(roles([
+		'standard deviation',
+		':   the square root of',
+		'$$',
+		'\\sigma^2',
+		'$$',
+		':   so it has the unit of the data',
+		'variance',
+		':   the mean squared deviation'
+	]), 'TD...DTD');
+	const blocks: Block[] = parseDefinitionLists([
+		'$$', 'x', '$$', ':   continued'
+	].join('\n'));
+	assert.equal(blocks.length, 1);
+	assert.equal(blocks[0].items[0].terms.length, 0);
+});
+
+/* Rule 1: definition marker */
+
+test('Rule 1: no marker, no definition list', () => {
+	assert.equal(roles(['term', 'text', '* list item']), '...');
+});
+
+test('Rule 1: the marker is a colon and three spaces', () => {
+	assert.equal(roles(['term', ':   definition']), 'TD');
+	assert.equal(roles(['term', ': definition']), '..');
+	assert.equal(roles(['term', ':\tdefinition']), '..');
+	assert.equal(roles(['term', '~   definition']), '..');
+	assert.equal(roles(['term', '  :   definition']), '..');
+});
+
+test('Rule 1: Pandoc markers, if the settings allow them', () => {
+	configureMarkers({markerTilde: true, markerSpace: true, markerTab: true, markerIndented: true});
+	try {
+		assert.equal(roles(['term', ': definition']), 'TD');
+		assert.equal(roles(['term', ':\tdefinition']), 'TD');
+		assert.equal(roles(['term', '~   definition']), 'TD');
+		assert.equal(roles(['term', '  :   definition']), 'TD');
+		assert.equal(roles(['term', '   :   definition']), '..');
+	} finally {
+		configureMarkers({markerTilde: false, markerSpace: false, markerTab: false, markerIndented: false});
+	}
+});
+
+/* Rule 2: block limitation */
+
+test('Rule 2: an empty line ends the list', () => {
+	assert.equal(roles(['paragraph', '', 'term', ':   definition', '', 'paragraph']), '..TD..');
+});
+
+test('Rule 2: a header ends the list', () => {
+	assert.equal(roles(['# Header', 'term', ':   definition', '## Header', 'text']), '.TD..');
+});
+
+test('Rule 2: a code block ends the list, and its markers don\'t count', () => {
+	assert.equal(roles(['term', ':   definition', '```', ':   code', '```', 'text']), 'TD....');
+	assert.equal(roles(['```', 'term', ':   code', '```']), '....');
+});
+
+test('Rule 2: a formula block ends the list', () => {
+	assert.equal(roles(['term', ':   definition', '$$', 'x = 1', '$$']), 'TD...');
+});
+
+test('Rule 2: the other constructs that end the list', () => {
+	const enders: string[][] = [
+		['---'],
+		['| a | b |', '| - | - |'],
+		['> quote'],
+		['> [!note] callout'],
+		['![[image.png]]'],
+		['![alt](image.png)'],
+		['[^1]: footnote'],
+		['- [ ] task'],
+		['<div>', 'html', '</div>'],
+		['%%', ':   comment', '%%'],
+		['<!--', ':   comment', '-->']
+	];
+	for (const ender of enders) {
+		const expected: string = 'TD' + '.'.repeat(ender.length);
+		assert.equal(roles(['term', ':   definition', ...ender]), expected, ender.join(' '));
+		// an HTML block only ends at an empty line
+		assert.equal(roles([...ender, '', 'term', ':   definition']), '.'.repeat(ender.length + 1) + 'TD',
+			ender.join(' '));
+	}
+});
+
+test('Rule 2: frontmatter ends the list, and its markers don\'t count', () => {
+	assert.equal(roles(['---', 'key: value', ':   no marker', '---', 'term', ':   definition']), '....TD');
+});
+
+test('Rule 2: an HTML block runs up to the next empty line', () => {
+	assert.equal(roles(['<div>', ':   html', '', 'term', ':   definition']), '...TD');
+});
+
+test('Rule 2: empty lines before indented lines don\'t end the definition', () => {
+	assert.equal(roles([
+		'term',
+		':   first paragraph',
+		'',
+		'    second paragraph',
+		'',
+		'paragraph'
+	]), 'TDEC..');
+	const [block]: Block[] = parseDefinitionLists(['term', ':   first', '', '    second'].join('\n'));
+	assert.equal(block.items[0].definitions.length, 1);
+});
+
+test('Rule 2: empty lines between a term and its marker don\'t end the list', () => {
+	assert.equal(roles(['term', '', ':   definition']), 'TED');
+	const [block]: Block[] = parseDefinitionLists(['term', '', '', ':   definition'].join('\n'));
+	assert.equal(block.items.length, 1);
+	assert.equal(block.items[0].terms.length, 1);
+});
+
+test('Rule 2: definition lists in a block quote or callout', () => {
+	assert.equal(roles(['> term', '> :   definition']), 'TD');
+	assert.equal(roles(['> [!note] Glossary', '> term', '> :   definition']), '.TD');
+	assert.equal(roles(['> quoted', '> text']), '..');
+	const [block]: Block[] = parseDefinitionLists(['> > term', '> > :   definition'].join('\n'));
+	assert.equal(lineContent(block.items[0].terms[0]), 'term');
+	assert.equal(lineContent(block.items[0].definitions[0].lines[0]), 'definition');
+});
+
+/* Rule 3: two roles */
+
+test('Rule 3: every line is a term or definition text', () => {
+	assert.equal(roles(['term', 'another term', ':   definition', '* list item', 'next term', ':   definition']),
+		'TTDLTD');
+});
+
+test('Rule 3: a line longer than 100 characters is definition text', () => {
+	assert.equal(roles(['x'.repeat(100), ':   definition']), 'TD');
+	assert.equal(roles(['term', ':   definition', 'x'.repeat(101)]), 'TDC');
+});
+
+test('Rule 3: a nested definition list', () => {
+	const lines: string[] = [
+		'outer term',
+		':   outer definition',
+		'    inner term',
+		'    :   inner definition',
+		':   second outer definition'
+	];
+	assert.equal(roles(lines), 'TDTDD');
+	const [block]: Block[] = parseDefinitionLists(lines.join('\n'));
+	assert.deepEqual(block.lines.map(line => line.depth), [0, 0, 1, 1, 0]);
+	assert.equal(block.items.length, 1);
+	assert.equal(block.items[0].definitions.length, 2);
+});
+
+test('Rule 3: indented lines without a marker are definition text', () => {
+	const [block]: Block[] = parseDefinitionLists(['term', ':   definition', '    more text'].join('\n'));
+	assert.deepEqual(block.lines.map(line => line.role), ['term', 'definition', 'continuation']);
+	assert.deepEqual(block.lines.map(line => line.depth), [0, 0, 0]);
+});
+
+test('Rule 3: an attribute line', () => {
+	const lines: string[] = ['{.compact #glossary lang=en}', 'term', ':   definition'];
+	assert.equal(roles(lines), 'ATD');
+	const [block]: Block[] = parseDefinitionLists(lines.join('\n'));
+	assert.deepEqual(block.attributes, {id: 'glossary', classes: ['compact'], attributes: {lang: 'en'}});
+	assert.equal(roles(['term', '{.compact}', ':   definition']), 'TTD');
+});
+
+/* Examples */
+
+test('Example: abbreviations ended by an empty marker', () => {
+	const lines: string[] = [
+		'LOL = laughing out loud',
+		'OMG = oh my God',
+		'ROFL = rolling on the floor laughing',
+		':    '
+	];
+	assert.equal(roles(lines), 'TTTD');
+	const [block]: Block[] = parseDefinitionLists(lines.join('\n'));
+	assert.equal(block.items.length, 1);
+	assert.equal(block.items[0].terms.length, 3);
+});
+
+report('Specification examples');
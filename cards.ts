@@ -0,0 +1,73 @@
+import {Definition, DefinitionListItem, lineContent, parseDefinitionLists, termSlug} from './parser';
+import {HTML_INLINE, convertInline, definitionParts, htmlItems, htmlList} from './exporters';
+
+/* The flashcards of a note
+ * ========================
+ * The cards that flashcards.ts exports, made from the text of a note
+ * without anything from Obsidian: one per item, with its terms as HTML on
+ * the front and its definitions on the back. The id of a card is a hash of
+ * the slug of its first term (see termSlug), and of how often that term has
+ * come before in the note, so it stays the same when the definitions are
+ * edited, the note is renamed or items with other terms are added or
+ * reordered.
+ */
+
+export interface Flashcard {
+	id: string,
+	front: string,
+	back: string,
+	tags: string[]
+}
+
+/** A short hash of the text (cyrb53), as the stable id of a card */
+function hash(text: string): string {
+	let h1: number = 0xdeadbeef, h2: number = 0x41c6ce57;
+	for (let i = 0; i < text.length; i++) {
+		const ch: number = text.charCodeAt(i);
+		h1 = Math.imul(h1 ^ ch, 2654435761);
+		h2 = Math.imul(h2 ^ ch, 1597334677);
+	}
+	h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+	h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+	return (4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(36);
+}
+
+/** One definition as HTML: its paragraphs, lists and nested definition lists */
+function definitionHtml(definition: Definition): string {
+	return definitionParts(definition).map(part =>
+		part.kind === 'text' ? `<div>${part.lines.map(l => convertInline(l, HTML_INLINE)).join('\n')}</div>` :
+		part.kind === 'list' ? htmlList(part.items, '').join('\n') :
+		['<dl>', ...htmlItems(part.items, ''), '</dl>'].join('\n')
+	).join('');
+}
+
+/** The back of the card of an item */
+function backHtml(item: DefinitionListItem): string {
+	const definitions: string[] = item.definitions.map(definitionHtml);
+	const html: string = definitions.length === 1 ? definitions[0] :
+		`<ol>${definitions.map(definition => `<li>${definition}</li>`).join('')}</ol>`;
+	// a card is one line of the file
+	return html.replace(/\s*\n\s*/g, ' ');
+}
+
+/** The cards of the definition lists in the text of a note; items without a term or definition are left out */
+export function flashcardsOf(text: string, tags: string[]): Flashcard[] {
+	const cards: Flashcard[] = [];
+	const ids: Map<string, number> = new Map();
+	for (const block of parseDefinitionLists(text, 0))
+		for (const item of block.items) {
+			if (!item.terms.length || !item.definitions.length)
+				continue;
+			// the second item with the same first term in the note gets a second id
+			const key: string = termSlug(lineContent(item.terms[0]));
+			const n: number = (ids.get(key) ?? 0) + 1;
+			ids.set(key, n);
+			cards.push({
+				id: hash(n > 1 ? `${key}-${n}` : key),
+				front: item.terms.map(term => convertInline(lineContent(term).trim(), HTML_INLINE)).join('<br>'),
+				back: backHtml(item),
+				tags
+			});
+		}
+	return cards;
+}
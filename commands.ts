@@ -0,0 +1,205 @@
+import {App, Editor, FuzzySuggestModal, Notice, TFile, normalizePath} from 'obsidian';
+import {
+	MARKER, Block, DefinitionListItem, blockIndexAt, hasMarker, lineContent, markerLength, parseDefinitionLists,
+	parseMarkdown, quoteLength
+} from './parser';
+import {EXPORT_FORMATS, ExportFormat} from './exporters';
+
+/* Editor commands for definition lists
+ * ====================================
+ * Each command works on the Editor of the active note. Commands that
+ * restructure a list find it with the parser, so they follow the same
+ * block rules as the rest of the plugin. The export asks for one of the
+ * formats of exporters.ts. Line numbers are 0-based, as in the Obsidian
+ * Editor.
+ */
+
+/** The lines touched by the selection(s) */
+function selectedLines(editor: Editor): number[] {
+	const lines: Set<number> = new Set();
+	for (const {anchor, head} of editor.listSelections())
+		for (let lnr = Math.min(anchor.line, head.line); lnr <= Math.max(anchor.line, head.line); lnr++)
+			lines.add(lnr);
+	return [...lines].sort((a, b) => a - b);
+}
+
+/** The blocks of the note, and the index of the one at the line */
+function blocksAt(editor: Editor, lnr: number): {blocks: Block[], index: number} {
+	const blocks: Block[] = parseMarkdown(editor.getValue(), 0);
+	return {blocks, index: blockIndexAt(blocks, lnr)};
+}
+
+/** The definition list at the cursor; shows a notice if there's none */
+function definitionListAtCursor(editor: Editor): {blocks: Block[], index: number} | null {
+	const found = blocksAt(editor, editor.getCursor().line);
+	if (!found.blocks[found.index]?.isDefinitionList) {
+		new Notice('The cursor is not in a definition list');
+		return null;
+	}
+	return found;
+}
+
+/** The first line of an item: its first term, or its first definition if it has no terms */
+function itemStart(item: DefinitionListItem): number {
+	return item.terms.length ? item.terms[0].number : item.definitions[0].lines[0].number;
+}
+
+/**
+ * Adds a definition marker to the selected lines, or removes it if they all
+ * have one; in a blockquote or callout, the marker goes after the `>`
+ */
+export function toggleMarker(editor: Editor): void {
+	const lines: number[] = selectedLines(editor).filter(lnr => editor.getLine(lnr).trim().length);
+	if (!lines.length)
+		lines.push(editor.getCursor().line);
+	const quote = (lnr: number): number => quoteLength(editor.getLine(lnr));
+	const content = (lnr: number): string => editor.getLine(lnr).slice(quote(lnr));
+	const remove: boolean = lines.every(lnr => hasMarker(content(lnr)));
+	editor.transaction({
+		changes: lines.filter(lnr => remove || !hasMarker(content(lnr))).map(lnr => remove ?
+			{from: {line: lnr, ch: quote(lnr)}, to: {line: lnr, ch: quote(lnr) + markerLength(content(lnr))}, text: ''} :
+			{from: {line: lnr, ch: quote(lnr)}, text: MARKER})
+	});
+}
+
+const PAIR_REGEX: RegExp = /^\s*(.+?)\s*(?:=|:|\s[-–—]|[–—])\s+(.+)$/;
+
+/** Converts selected lines like `term = definition` or `term: definition` into a definition list */
+export function convertPairs(editor: Editor): void {
+	const lines: number[] = selectedLines(editor);
+	let converted: number = 0;
+	const result: string[] = lines.map(lnr => {
+		const text: string = editor.getLine(lnr);
+		// in a blockquote or callout, both lines keep the `>`
+		const quote: string = text.slice(0, quoteLength(text));
+		const match = hasMarker(text.slice(quote.length)) ? null : text.slice(quote.length).match(PAIR_REGEX);
+		if (!match)
+			return text;
+		converted++;
+		return `${quote}${match[1]}\n${quote}${MARKER}${match[2]}`;
+	});
+	if (!converted) {
+		new Notice('No lines of the form "term = definition" or "term: definition" selected');
+		return;
+	}
+	const last: number = lines[lines.length - 1];
+	editor.replaceRange(result.join('\n'), {line: lines[0], ch: 0}, {line: last, ch: editor.getLine(last).length});
+}
+
+/**
+ * Sorts the items of the definition list at the cursor alphabetically by
+ * their first term. Each item keeps its terms, definitions and list items.
+ */
+export function sortList(editor: Editor): void {
+	const found = definitionListAtCursor(editor);
+	if (!found) return;
+	const block: Block = found.blocks[found.index];
+	const starts: number[] = block.items.map(itemStart);
+	const segments = block.items.map((item, i) => {
+		const lines: string[] = [];
+		const end: number = i + 1 < starts.length ? starts[i + 1] - 1 : block.lastLine;
+		for (let lnr = starts[i]; lnr <= end; lnr++)
+			lines.push(editor.getLine(lnr));
+		// empty lines at the end belong between items, not to the item
+		while (lines.length > 1 && !lines[lines.length - 1].trim().length)
+			lines.pop();
+		return {key: item.terms[0] ? lineContent(item.terms[0]).trim() : '', lines};
+	});
+	// definitions without a term, at the start of a list, stay where they are
+	const fixed = segments[0]?.key ? [] : segments.splice(0, 1);
+	segments.sort((a, b) => a.key.localeCompare(b.key, undefined, {sensitivity: 'base', numeric: true}));
+	const text: string = [...fixed, ...segments].map(segment => segment.lines.join('\n')).join('\n');
+	editor.replaceRange(text, {line: starts[0], ch: 0},
+		{line: block.lastLine, ch: editor.getLine(block.lastLine).length});
+}
+
+/** Joins the definition list at the cursor with the next one, by removing the empty lines in between */
+export function mergeWithNext(editor: Editor): void {
+	const found = definitionListAtCursor(editor);
+	if (!found) return;
+	const {blocks, index} = found;
+	let next: number = index + 1;
+	while (next < blocks.length && !blocks[next].isDefinitionList &&
+		blocks[next].lines.every(line => !line.text.trim().length))
+		next++;
+	if (!blocks[next]?.isDefinitionList) {
+		new Notice('There is no definition list directly after this one');
+		return;
+	}
+	const lastLine: number = blocks[index].lastLine;
+	// the first non-empty line of the next list
+	const firstLine: number = blocks[next].lines.find(line => line.text.trim().length)?.number ?? blocks[next].firstLine;
+	editor.replaceRange('', {line: lastLine, ch: editor.getLine(lastLine).length}, {line: firstLine - 1,
+		ch: editor.getLine(firstLine - 1).length});
+}
+
+/** Splits the definition list at the cursor in two, before the item that has the cursor */
+export function splitList(editor: Editor): void {
+	const found = definitionListAtCursor(editor);
+	if (!found) return;
+	const block: Block = found.blocks[found.index];
+	const cursorLine: number = editor.getCursor().line;
+	const start: number | undefined = block.items.map(itemStart).filter(lnr => lnr <= cursorLine).pop();
+	if (start === undefined || start === itemStart(block.items[0])) {
+		new Notice('Put the cursor in the item that is to start the second list');
+		return;
+	}
+	editor.replaceRange('\n', {line: start, ch: 0});
+}
+
+/* Export */
+/** Lets the user choose a format, then calls back with it */
+export class ExportFormatModal extends FuzzySuggestModal<ExportFormat> {
+	private readonly onChoose: (format: ExportFormat) => Promise<void>;
+
+	constructor(app: App, onChoose: (format: ExportFormat) => Promise<void>) {
+		super(app);
+		this.onChoose = onChoose;
+		this.setPlaceholder('Export definition lists as...');
+	}
+	getItems(): ExportFormat[] {
+		return EXPORT_FORMATS;
+	}
+	getItemText(format: ExportFormat): string {
+		return format.name;
+	}
+	onChooseItem(format: ExportFormat): void {
+		this.onChoose(format).catch(e => new Notice(`Could not export definition lists: ${(e as Error).message}`));
+	}
+}
+
+/** Writes the exported text to a new file next to the note, and opens it */
+export async function exportToNewFile(app: App, note: TFile, format: ExportFormat, text: string): Promise<void> {
+	const folder: string = note.parent?.path ?? '';
+	let path: string, n: number = 0;
+	do {
+		path = normalizePath(`${folder}/${note.basename} (${format.extension})${n ? ' ' + n : ''}.${format.extension}`);
+		n++;
+	} while (app.vault.getAbstractFileByPath(path));
+	const file: TFile = await app.vault.create(path, text);
+	new Notice(`Definition lists exported to ${file.path}`);
+	if (format.extension === 'md')
+		await app.workspace.getLeaf(true).openFile(file);
+}
+
+/**
+ * Exports the definition lists of the selection, or of the whole note if
+ * nothing is selected, to the clipboard or to a new file.
+ */
+export function exportDefinitionLists(app: App, editor: Editor, note: TFile | null, toClipboard: boolean): void {
+	const text: string = editor.somethingSelected() ? editor.getSelection() : editor.getValue();
+	const blocks: Block[] = parseDefinitionLists(text);
+	if (!blocks.length) {
+		new Notice('No definition lists found');
+		return;
+	}
+	new ExportFormatModal(app, async format => {
+		const exported: string = format.convert(blocks);
+		if (toClipboard || !note) {
+			await navigator.clipboard.writeText(exported);
+			new Notice(`${blocks.length} definition list(s) copied as ${format.name}`);
+		}
+		else
+			await exportToNewFile(app, note, format, exported);
+	}).open();
+}
@@ -0,0 +1,235 @@
+import {App, ButtonComponent, Modal, Notice, editorInfoField} from 'obsidian';
+import {ViewPlugin, PluginValue, ViewUpdate, EditorView, DecorationSet, Decoration} from '@codemirror/view';
+import {Extension, Range, RangeSet} from '@codemirror/state';
+import {Block, DefinitionListLine, lineContent} from './parser';
+import {GlossaryEntry, GlossaryIndex, openEntry} from './glossary';
+import {BlocksOfEditor} from './outline';
+import {DuplicateSettings, mergeEntries, normaliseTerm} from './sameterms';
+
+/* Duplicate terms
+ * ===============
+ * Finds the terms that are defined more than once, in one list, one note
+ * or several notes. Two terms are the same if their normalised forms are:
+ * without formatting and, depending on the settings, without case,
+ * punctuation or a simple English plural ending. A group of duplicates is
+ * conflicting if their definitions differ. The command lists the groups
+ * with their definitions side by side, to go to one or to merge the others
+ * into it: their definitions are added to it and their terms removed. In
+ * the editor, a term that's defined elsewhere too can get a warning
+ * underline, with the other places in its tooltip. The normalising and
+ * the merging are in sameterms.ts.
+ * The entries come from the GlossaryIndex, the terms in the editor from the
+ * blocks of the DocumentDecorationEngine. Line numbers are 0-based.
+ */
+
+export interface DuplicateGroup {
+	entries: GlossaryEntry[],
+	/** true if the entries don't all have the same definitions */
+	conflicting: boolean
+}
+
+const DUPLICATE_CLASS: string = 'dl-duplicate-term';
+
+/* Definitions that differ only in spacing and case are the same */
+function sameDefinitions(a: GlossaryEntry, b: GlossaryEntry): boolean {
+	const normalise = (entry: GlossaryEntry): string =>
+		entry.definitions.map(d => d.replace(/\s+/g, ' ').trim().toLowerCase()).join('\n');
+	return normalise(a) === normalise(b);
+}
+
+/**
+ * Groups the entries of the index by their normalised term. The groups are
+ * cached, and made again only when the index or the settings change.
+ */
+export class DuplicateFinder {
+	private readonly index: GlossaryIndex;
+	private readonly settings: DuplicateSettings;
+	private cacheKey: string = '';
+	private byTerm: Map<string, GlossaryEntry[]> = new Map();
+
+	constructor(index: GlossaryIndex, settings: DuplicateSettings) {
+		this.index = index;
+		this.settings = settings;
+	}
+
+	normalise(term: string): string {
+		return normaliseTerm(term, this.settings);
+	}
+
+	/** All entries by normalised term; the same Map as long as nothing has changed */
+	entriesByTerm(): Map<string, GlossaryEntry[]> {
+		const {duplicateIgnoreCase, duplicateIgnorePunctuation, duplicatePlurals} = this.settings;
+		const key: string = [this.index.version, duplicateIgnoreCase, duplicateIgnorePunctuation, duplicatePlurals]
+			.join('|');
+		if (key !== this.cacheKey) {
+			this.cacheKey = key;
+			this.byTerm = new Map();
+			for (const entry of this.index.entries()) {
+				const normalised: string = this.normalise(entry.term);
+				if (!normalised)
+					continue;
+				if (!this.byTerm.has(normalised))
+					this.byTerm.set(normalised, []);
+				this.byTerm.get(normalised).push(entry);
+			}
+		}
+		return this.byTerm;
+	}
+
+	/** The terms that are defined more than once, conflicting ones first */
+	groups(): DuplicateGroup[] {
+		const groups: DuplicateGroup[] = [];
+		this.entriesByTerm().forEach(entries => {
+			if (entries.length > 1)
+				groups.push({entries, conflicting: entries.some(entry => !sameDefinitions(entry, entries[0]))});
+		});
+		return groups.sort((a, b) => Number(b.conflicting) - Number(a.conflicting) ||
+			a.entries[0].term.localeCompare(b.entries[0].term, undefined, {sensitivity: 'base'}));
+	}
+}
+
+/* The report */
+class DuplicatesModal extends Modal {
+	private readonly groups: DuplicateGroup[];
+
+	constructor(app: App, groups: DuplicateGroup[]) {
+		super(app);
+		this.groups = groups;
+	}
+
+	onOpen(): void {
+		this.modalEl.addClass('dl-duplicates');
+		this.titleEl.setText(`${this.groups.length} term(s) defined more than once`);
+		for (const group of this.groups) {
+			const groupEl: HTMLElement = this.contentEl.createDiv({cls: 'dl-duplicates-group'});
+			groupEl.createDiv({
+				cls: 'dl-duplicates-term',
+				text: `${group.entries[0].term} – ${group.conflicting ? 'different definitions' : 'same definitions'}`
+			});
+			const row: HTMLElement = groupEl.createDiv({cls: 'dl-duplicates-row'});
+			for (const entry of group.entries)
+				this.renderEntry(row.createDiv({cls: 'dl-duplicates-entry'}), entry, group);
+		}
+	}
+
+	private renderEntry(el: HTMLElement, entry: GlossaryEntry, group: DuplicateGroup): void {
+		el.createDiv({cls: 'dl-duplicates-source', text: `${entry.file.basename}, line ${entry.line + 1}`});
+		const defList: HTMLDListElement = el.createEl('dl');
+		defList.createEl('dt', {text: entry.term});
+		for (const definition of entry.definitions)
+			defList.createEl('dd', {text: definition});
+		const buttons: HTMLElement = el.createDiv({cls: 'dl-duplicates-buttons'});
+		new ButtonComponent(buttons).setButtonText('Go to').onClick(() => {
+			this.close();
+			// noinspection JSIgnoredPromiseFromCall
+			openEntry(this.app, entry);
+		});
+		// merging changes other notes, so it takes a second click
+		let confirming: boolean = false;
+		const merge = new ButtonComponent(buttons).setButtonText('Merge the others into this one');
+		merge.onClick(async () => {
+			if (!confirming) {
+				confirming = true;
+				merge.setButtonText('Click again to merge').setWarning();
+				return;
+			}
+			this.close();
+			try {
+				const count: number = await mergeEntries(this.app, entry, group.entries.filter(e => e !== entry));
+				new Notice(`${count} definition(s) added to "${entry.term}" in ${entry.file.basename}; ` +
+					`the term was removed from ${group.entries.length - 1} other place(s)`);
+			} catch (e) {
+				new Notice(`Could not merge: ${(e as Error).message}`);
+			}
+		});
+	}
+
+	onClose(): void {
+		this.contentEl.empty();
+	}
+}
+
+/** Lists the terms of the vault that are defined more than once */
+export function listDuplicates(app: App, finder: DuplicateFinder, index: GlossaryIndex): void {
+	if (!index.ready) {
+		new Notice('The terms of the vault are still being indexed');
+		return;
+	}
+	const groups: DuplicateGroup[] = finder.groups();
+	if (!groups.length) {
+		new Notice('No term is defined more than once');
+		return;
+	}
+	new DuplicatesModal(app, groups).open();
+}
+
+/* Live Preview and Source mode */
+/** Underlines the terms in the visible part of the editor that are defined elsewhere too */
+class DuplicateHighlighter implements PluginValue {
+	decorations: DecorationSet = Decoration.none;
+	private readonly finder: DuplicateFinder;
+	private readonly blocksOf: BlocksOfEditor;
+	private entries: Map<string, GlossaryEntry[]> | null = null;
+
+	constructor(view: EditorView, finder: DuplicateFinder, blocksOf: BlocksOfEditor) {
+		this.finder = finder;
+		this.blocksOf = blocksOf;
+		this.decorate(view);
+	}
+
+	update(update: ViewUpdate) {
+		if (update.docChanged || update.viewportChanged || this.finder.entriesByTerm() !== this.entries)
+			this.decorate(update.view);
+	}
+
+	decorate(view: EditorView) {
+		this.entries = this.finder.entriesByTerm();
+		const blocks: Block[] | null = this.blocksOf(view);
+		if (!blocks) {
+			this.decorations = Decoration.none;
+			return;
+		}
+		// the terms of the whole note, since the other definition may be out of sight
+		const path: string = view.state.field(editorInfoField, false)?.file?.path ?? '';
+		const terms: {line: DefinitionListLine, normalised: string}[] = [];
+		const inNote: Map<string, number> = new Map();
+		for (const block of blocks)
+			for (const line of block.isDefinitionList ? block.lines : [])
+				if (line.role === 'term') {
+					const normalised: string = this.finder.normalise(lineContent(line));
+					terms.push({line, normalised});
+					inNote.set(normalised, (inNote.get(normalised) ?? 0) + 1);
+				}
+		const doc = view.state.doc;
+		const newDecorations: Range<Decoration>[] = [];
+		for (const {line, normalised} of terms) {
+			if (!normalised || line.number > doc.lines ||
+				!view.visibleRanges.some(range => doc.lineAt(range.from).number <= line.number &&
+					doc.lineAt(range.to).number >= line.number))
+				continue;
+			const elsewhere: string[] = (this.entries.get(normalised) ?? [])
+				.filter(entry => entry.file.path !== path).map(entry => entry.file.basename);
+			const warnings: string[] = [];
+			if ((inNote.get(normalised) ?? 0) > 1)
+				warnings.push('This term is defined more than once in this note');
+			if (elsewhere.length)
+				warnings.push(`This term is also defined in ${[...new Set(elsewhere)].join(', ')}`);
+			if (!warnings.length)
+				continue;
+			// the term without the `>` of a quote and the indentation
+			const docLine = doc.line(line.number);
+			const content: string = docLine.text.slice(line.quote);
+			const start: number = docLine.from + line.quote + content.length - content.trimStart().length;
+			if (start < docLine.to)
+				newDecorations.push(Decoration.mark({class: DUPLICATE_CLASS, attributes: {title: warnings.join('\n')}})
+					.range(start, docLine.to));
+		}
+		this.decorations = RangeSet.of(newDecorations, true);
+	}
+}
+
+/** The editor extension for the warnings on duplicate terms */
+export function duplicateExtensions(finder: DuplicateFinder, blocksOf: BlocksOfEditor): Extension[] {
+	return [ViewPlugin.define(view => new DuplicateHighlighter(view, finder, blocksOf),
+		{decorations: dh => dh.decorations})];
+}
@@ -0,0 +1,240 @@
+import {
+	App, Component, MarkdownPostProcessorContext, MarkdownRenderChild, TFile, debounce,
+	editorInfoField, editorLivePreviewField
+} from 'obsidian';
+import {
+	ViewPlugin, PluginValue, ViewUpdate, EditorView, DecorationSet, Decoration, WidgetType
+} from '@codemirror/view';
+import {Extension, Range, RangeSet} from '@codemirror/state';
+import {syntaxTree} from '@codemirror/language';
+import {
+	DefinitionListItem, DefinitionListLine, groupItems, lineContent, parseDefinitionLists, stripIndent, termSlug
+} from './parser';
+import {GlossaryEntry, GlossaryIndex} from './glossary';
+import {renderInline} from './query';
+
+/* Embedded terms
+ * ==============
+ * Inline code of the form `define:term` or `define:Note#term` is replaced
+ * by a definition list with only that term and its definitions, including
+ * the lists and definition lists inside them. Without a note, the term is
+ * looked up in the note itself first, then in the whole vault. The term is
+ * matched by its slug (see termSlug), so case and formatting don't matter.
+ * In Reading View and PDF a post-processor replaces the <code>; in Live
+ * Preview a widget replaces the inline code, except when the cursor is in it.
+ * Both use a TermEmbed, which renders the term again whenever the
+ * GlossaryIndex changes. Embeds inside an embedded definition stay code,
+ * so that a term can't embed itself.
+ */
+
+const EMBED_PREFIX: string = 'define:';
+const EMBED_CLASS: string = 'dl-embed';
+const EMBED_REGEX: RegExp = /`define:([^`]+)`/g;
+
+/** The entry of the reference `term` or `Note#term`, as seen from the note at sourcePath */
+function findEntry(app: App, index: GlossaryIndex, reference: string, sourcePath: string): GlossaryEntry | undefined {
+	const hash: number = reference.lastIndexOf('#');
+	const linkpath: string = hash < 0 ? '' : reference.slice(0, hash).trim();
+	const slug: string = termSlug(reference.slice(hash + 1));
+	const matches = (entry: GlossaryEntry): boolean => termSlug(entry.term) === slug;
+	if (linkpath) {
+		const file: TFile | null = app.metadataCache.getFirstLinkpathDest(linkpath, sourcePath);
+		return file ? index.entriesOf(file).find(matches) : undefined;
+	}
+	const note = app.vault.getAbstractFileByPath(sourcePath);
+	return (note instanceof TFile ? index.entriesOf(note).find(matches) : undefined) ?? index.entries().find(matches);
+}
+
+/** The Markdown of a definition, with its nested lists one level less indented, as in continuationPostProcessor */
+function definitionMarkdown(lines: DefinitionListLine[], depth: number): string {
+	return lines.map(line => line.depth > depth ? stripIndent(line.text.slice(line.quote), depth + 1) : lineContent(line)).join('\n');
+}
+
+/** A <dl> with one term and its definitions, that follows the changes of the index */
+class TermEmbed extends MarkdownRenderChild {
+	private readonly app: App;
+	private readonly index: GlossaryIndex;
+	private readonly reference: string;
+	private readonly sourcePath: string;
+	/* the rendered Markdown of the last render, unloaded when rendering again */
+	private content: Component | null = null;
+	/* rendering is asynchronous, so a newer render may start before an older one has finished */
+	private generation: number = 0;
+	/** resolves when the first render is done */
+	public rendered: Promise<void>;
+
+	constructor(containerEl: HTMLElement, app: App, index: GlossaryIndex, reference: string, sourcePath: string) {
+		super(containerEl);
+		this.app = app;
+		this.index = index;
+		this.reference = reference;
+		this.sourcePath = sourcePath;
+	}
+
+	onload(): void {
+		this.containerEl.addClass(EMBED_CLASS);
+		this.registerEvent(this.index.on('changed', debounce(() => this.render(), 500, true)));
+		this.rendered = this.render();
+	}
+
+	async render(): Promise<void> {
+		const generation: number = ++this.generation;
+		if (this.content)
+			this.removeChild(this.content);
+		this.content = this.addChild(new Component());
+		// the post-processors see the class while rendering, so that embeds in the definitions stay code
+		const el: HTMLElement = createDiv({cls: EMBED_CLASS});
+		const entry: GlossaryEntry | undefined = this.index.ready ?
+			findEntry(this.app, this.index, this.reference, this.sourcePath) : undefined;
+		const item: DefinitionListItem | undefined = entry && await this.itemOf(entry);
+		if (!entry || !item)
+			el.createSpan({
+				cls: 'dl-embed-missing', text: this.index.ready ? `Term not found: ${this.reference}` : 'Indexing...'
+			});
+		else {
+			const path: string = entry.file.path;
+			const term: DefinitionListLine = item.terms.find(line => line.number === entry.line);
+			const defList: HTMLDListElement = el.createEl('dl', {attr: {title: entry.file.basename}});
+			await renderInline(this.app, lineContent(term).trim(), defList.createEl('dt'), path, this.content);
+			for (const definition of item.definitions)
+				await renderInline(this.app, definitionMarkdown(definition.lines, term.depth),
+					defList.createEl('dd'), path, this.content);
+		}
+		if (generation !== this.generation)
+			return;  // a newer render has taken over
+		this.containerEl.empty();
+		this.containerEl.append(...Array.from(el.childNodes));
+	}
+
+	/* The item of the entry in its note, with its definitions as parsed blocks */
+	private async itemOf(entry: GlossaryEntry): Promise<DefinitionListItem | undefined> {
+		const text: string = await this.app.vault.cachedRead(entry.file);
+		for (const block of parseDefinitionLists(text, 0)) {
+			if (entry.line < block.firstLine || entry.line > block.lastLine)
+				continue;
+			// the term may be in a definition list inside a definition
+			const items: DefinitionListItem[] = [...block.items];
+			for (const item of items) {
+				if (item.terms.some(term => term.number === entry.line))
+					return item;
+				for (const definition of item.definitions) {
+					const depth: number = definition.lines[0]?.depth ?? 0;
+					items.push(...groupItems(definition.lines.filter(line => line.depth > depth), depth + 1));
+				}
+			}
+		}
+		return undefined;
+	}
+}
+
+/* Reading View and PDF */
+/** Replaces the `define:...` code in the element by the embedded terms */
+export function termEmbedProcessor(app: App, index: GlossaryIndex) {
+	return (element: HTMLElement, context: MarkdownPostProcessorContext): Promise<void> | undefined => {
+		const embeds: TermEmbed[] = [];
+		for (const code of element.findAll('code')) {
+			const text: string = code.textContent ?? '';
+			if (!text.startsWith(EMBED_PREFIX) || code.parentElement?.tagName === 'PRE' || code.closest(`.${EMBED_CLASS}`))
+				continue;
+			const container: HTMLElement = createDiv();
+			// a paragraph with only the embed is replaced as a whole
+			const paragraph: HTMLElement | null = code.parentElement;
+			if (paragraph?.tagName === 'P' && paragraph.childNodes.length === 1)
+				paragraph.replaceWith(container);
+			else
+				code.replaceWith(container);
+			const embed = new TermEmbed(container, app, index, text.slice(EMBED_PREFIX.length).trim(), context.sourcePath);
+			context.addChild(embed);
+			embeds.push(embed);
+		}
+		// a PDF export waits for the terms
+		return embeds.length ? Promise.all(embeds.map(embed => embed.rendered)).then(() => undefined) : undefined;
+	};
+}
+
+/* Live Preview */
+/* CodeMirror keeps the DOM of a widget when a new one is equal to it, and
+ * then destroys the DOM through the new widget; so the embed goes with the DOM */
+const widgetEmbeds: WeakMap<HTMLElement, TermEmbed> = new WeakMap();
+class TermEmbedWidget extends WidgetType {
+	private readonly app: App;
+	private readonly index: GlossaryIndex;
+	private readonly reference: string;
+	private readonly sourcePath: string;
+
+	constructor(app: App, index: GlossaryIndex, reference: string, sourcePath: string) {
+		super();
+		this.app = app;
+		this.index = index;
+		this.reference = reference;
+		this.sourcePath = sourcePath;
+	}
+
+	eq(other: TermEmbedWidget): boolean {
+		return other.reference === this.reference && other.sourcePath === this.sourcePath;
+	}
+
+	toDOM(): HTMLElement {
+		const el: HTMLElement = createDiv();
+		const embed = new TermEmbed(el, this.app, this.index, this.reference, this.sourcePath);
+		embed.load();
+		widgetEmbeds.set(el, embed);
+		return el;
+	}
+
+	destroy(dom: HTMLElement): void {
+		widgetEmbeds.get(dom)?.unload();
+		widgetEmbeds.delete(dom);
+	}
+}
+
+/** Replaces the `define:...` code in the visible part of the editor by the embedded terms */
+class TermEmbedDecorator implements PluginValue {
+	decorations: DecorationSet = Decoration.none;
+	private readonly app: App;
+	private readonly index: GlossaryIndex;
+
+	constructor(view: EditorView, app: App, index: GlossaryIndex) {
+		this.app = app;
+		this.index = index;
+		this.decorate(view);
+	}
+
+	update(update: ViewUpdate) {
+		if (update.docChanged || update.viewportChanged || update.selectionSet ||
+			update.state.field(editorLivePreviewField) !== update.startState.field(editorLivePreviewField))
+			this.decorate(update.view);
+	}
+
+	decorate(view: EditorView) {
+		const state = view.state;
+		if (!state.field(editorLivePreviewField)) {
+			this.decorations = Decoration.none;
+			return;
+		}
+		const sourcePath: string = state.field(editorInfoField, false)?.file?.path ?? '';
+		const newDecorations: Range<Decoration>[] = [];
+		for (const range of view.visibleRanges) {
+			const text: string = state.sliceDoc(range.from, range.to);
+			EMBED_REGEX.lastIndex = 0;
+			let match: RegExpExecArray | null;
+			while ((match = EMBED_REGEX.exec(text))) {
+				const from: number = range.from + match.index, to: number = from + match[0].length;
+				// only inline code, and not while the cursor is in it
+				if (!syntaxTree(state).resolveInner(from + 1, 1).name.includes('inline-code') ||
+					state.selection.ranges.some(selection => selection.from <= to && selection.to >= from))
+					continue;
+				newDecorations.push(Decoration.replace({
+					widget: new TermEmbedWidget(this.app, this.index, match[1].trim(), sourcePath)
+				}).range(from, to));
+			}
+		}
+		this.decorations = RangeSet.of(newDecorations, true);
+	}
+}
+
+/** The editor extension that shows embedded terms in Live Preview */
+export function termEmbedExtension(app: App, index: GlossaryIndex): Extension {
+	return ViewPlugin.define(view => new TermEmbedDecorator(view, app, index),
+		{decorations: ted => ted.decorations});
+}
@@ -0,0 +1,388 @@
+import {
+	Block, Definition, DefinitionListItem, DefinitionListLine, ListAttributes, groupItems, lineContent
+} from './parser';
+
+/* Export of definition lists to other markup formats
+ * ==================================================
+ * The definition lists are taken from the parser, so the export follows
+ * exactly the block rules that the editor and Reading View follow:
+ * several terms per item, several definitions per term, and lists and
+ * definition lists inside definitions. Each format is an ExportFormat that turns the parsed
+ * blocks into text. Inline Markdown (bold, italic, code, links) is
+ * translated into the inline syntax of the format.
+ */
+
+/** A piece of a definition: a paragraph of text, a list (possibly nested), or a nested definition list */
+export type DefinitionPart =
+	{kind: 'text', lines: string[]} |
+	{kind: 'list', items: ListItem[]} |
+	{kind: 'definitionList', items: DefinitionListItem[]};
+export interface ListItem {
+	ordered: boolean,
+	/** 0 for an item at the top level of the list, 1 for an item inside it, etc. */
+	depth: number,
+	text: string
+}
+
+export interface ExportFormat {
+	name: string,
+	extension: string,
+	convert(blocks: Block[]): string
+}
+
+const LIST_MARKER_REGEX: RegExp = /^(\s*)([*+-]|\d+[.)])\s+/;
+
+/** Divides a definition into paragraphs, lists and nested definition lists */
+export function definitionParts(definition: Definition): DefinitionPart[] {
+	const parts: DefinitionPart[] = [];
+	const indents: number[] = [];  // indentation of the current item and its parents
+	const depth: number = definition.lines[0]?.depth ?? 0;
+	const nested: DefinitionListLine[] = [];  // the lines of the current nested definition list
+	const endNested = () => {
+		parts.push({kind: 'definitionList', items: groupItems(nested, depth + 1)});
+		nested.splice(0);
+	};
+	let newParagraph: boolean = false;
+	for (const line of definition.lines) {
+		if (line.depth > depth) {
+			nested.push(line);
+			continue;
+		}
+		if (nested.length) {
+			endNested();
+			newParagraph = true;
+		}
+		const last: DefinitionPart | undefined = parts[parts.length - 1];
+		if (line.role === 'empty') {
+			newParagraph = true;
+			continue;
+		}
+		if (line.role === 'listItem') {
+			const text: string = line.text.slice(line.quote);
+			const [prefix, indentation, marker] = text.match(LIST_MARKER_REGEX) ?? ['', '', '*'];
+			const width = indentation.replace(/\t/g, '    ').length;
+			while (indents.length && indents[indents.length - 1] > width)
+				indents.pop();
+			if (!indents.length || indents[indents.length - 1] < width)
+				indents.push(width);
+			const item: ListItem = {
+				ordered: /\d/.test(marker), depth: indents.length - 1, text: text.slice(prefix.length)
+			};
+			if (last?.kind === 'list' && !newParagraph)
+				last.items.push(item);
+			else
+				parts.push({kind: 'list', items: [item]});
+		}
+		else {
+			indents.splice(0);
+			if (last?.kind === 'text' && line.role !== 'definition' && !newParagraph)
+				last.lines.push(lineContent(line));
+			else
+				parts.push({kind: 'text', lines: [lineContent(line)]});
+		}
+		newParagraph = false;
+	}
+	if (nested.length)
+		endNested();
+	return parts;
+}
+
+/** All items of all blocks */
+function allItems(blocks: Block[]): DefinitionListItem[] {
+	return blocks.reduce((items, block) => items.concat(block.items), [] as DefinitionListItem[]);
+}
+
+/* Inline Markdown */
+interface InlineSyntax {
+	escape: (text: string) => string,
+	bold: (text: string) => string,
+	italic: (text: string) => string,
+	code: (text: string) => string,
+	math: (text: string) => string,
+	link: (text: string, url: string) => string
+}
+
+/** Translates the inline Markdown of one line into another syntax */
+export function convertInline(text: string, syntax: InlineSyntax): string {
+	const INLINE_REGEX: RegExp =
+		/`([^`]+)`|\$([^$]+)\$|\[\[([^\]|]+)(?:\|([^\]]+))?]]|\[([^\]]+)]\(([^)]+)\)|\*\*(.+?)\*\*|(?<!\w)__(.+?)__(?!\w)|\*(.+?)\*|(?<!\w)_(.+?)_(?!\w)/g;
+	let result: string = '';
+	let last: number = 0;
+	let match: RegExpExecArray | null;
+	while ((match = INLINE_REGEX.exec(text))) {
+		result += syntax.escape(text.slice(last, match.index));
+		const [, code, math, wikiTarget, wikiAlias, linkText, url, bold1, bold2, italic1, italic2] = match;
+		if (code !== undefined)
+			result += syntax.code(code);
+		else if (math !== undefined)
+			result += syntax.math(math);
+		else if (wikiTarget !== undefined)
+			result += syntax.escape(wikiAlias ?? wikiTarget);
+		else if (linkText !== undefined)
+			result += syntax.link(convertInline(linkText, syntax), url);
+		else if ((bold1 ?? bold2) !== undefined)
+			result += syntax.bold(convertInline(bold1 ?? bold2, syntax));
+		else
+			result += syntax.italic(convertInline(italic1 ?? italic2, syntax));
+		last = match.index + match[0].length;
+	}
+	return result + syntax.escape(text.slice(last));
+}
+
+const escapeHtml = (text: string): string =>
+	text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+export const HTML_INLINE: InlineSyntax = {
+	escape: escapeHtml,
+	bold: text => `<strong>${text}</strong>`,
+	italic: text => `<em>${text}</em>`,
+	code: text => `<code>${escapeHtml(text)}</code>`,
+	math: text => `\\(${escapeHtml(text)}\\)`,
+	link: (text, url) => `<a href="${escapeHtml(url)}">${text}</a>`
+};
+const MARKDOWN_INLINE: InlineSyntax = {
+	escape: text => text,
+	bold: text => `**${text}**`,
+	italic: text => `*${text}*`,
+	code: text => `\`${text}\``,
+	math: text => `$${text}$`,
+	link: (text, url) => `[${text}](${url})`
+};
+const ASCIIDOC_INLINE: InlineSyntax = {
+	escape: text => text,
+	bold: text => `*${text}*`,
+	italic: text => `_${text}_`,
+	code: text => `\`${text}\``,
+	math: text => `stem:[${text}]`,
+	link: (text, url) => `${url}[${text}]`
+};
+const RST_INLINE: InlineSyntax = {
+	escape: text => text,
+	bold: text => `**${text}**`,
+	italic: text => `*${text}*`,
+	code: text => `\`\`${text}\`\``,
+	math: text => `:math:\`${text}\``,
+	link: (text, url) => `\`${text} <${url}>\`_`
+};
+/* The characters with a special meaning in LaTeX, as text; the others get a backslash */
+const LATEX_SPECIAL: Record<string, string> = {'\\': '\\textbackslash{}', '^': '\\^{}', '~': '\\~{}'};
+const escapeLatex = (text: string): string =>
+	text.replace(/[\\&%#_{}$^~]/g, char => LATEX_SPECIAL[char] ?? '\\' + char);
+/* hyperref takes the URL of \href as it is, except for these characters */
+const escapeLatexUrl = (url: string): string => url.replace(/[\\%#{}]/g, char => '\\' + char);
+const LATEX_INLINE: InlineSyntax = {
+	escape: escapeLatex,
+	bold: text => `\\textbf{${text}}`,
+	italic: text => `\\emph{${text}}`,
+	code: text => `\\texttt{${escapeLatex(text)}}`,
+	math: text => `$${text}$`,
+	link: (text, url) => `\\href{${escapeLatexUrl(url)}}{${text}}`
+};
+
+/** Renders the list items of a definition with the given bullet syntax */
+function convertList(items: ListItem[], inline: InlineSyntax,
+                     bullet: (item: ListItem) => string): string[] {
+	return items.map(item => bullet(item) + convertInline(item.text, inline));
+}
+
+/* The formats */
+export const EXPORT_FORMATS: ExportFormat[] = [
+	{
+		name: 'HTML <dl>',
+		extension: 'html',
+		convert: blocks => blocks.map(block =>
+			[`<dl${htmlAttributes(block.attributes)}>`, ...htmlItems(block.items, '  '), '</dl>'].join('\n')
+		).join('\n\n') + '\n'
+	},
+	{
+		name: 'Pandoc / PHP Markdown Extra',
+		extension: 'md',
+		convert: blocks => allItems(blocks).map(item => pandocItem(item).join('\n')).join('\n\n') + '\n'
+	},
+	{
+		name: 'AsciiDoc labeled list',
+		extension: 'adoc',
+		convert: blocks => blocks.map(block => allItems([block]).map(item =>
+			asciidocItem(item, 0).join('\n')
+		).join('\n')).join('\n\n') + '\n'
+	},
+	{
+		name: 'reStructuredText definition list',
+		extension: 'rst',
+		convert: blocks => allItems(blocks).map(item => rstItem(item).join('\n')).join('\n\n') + '\n'
+	},
+	{
+		name: 'LaTeX description environment',
+		extension: 'tex',
+		convert: blocks => blocks.map(block =>
+			['\\begin{description}', ...latexItems(block.items, '  '), '\\end{description}'].join('\n')
+		).join('\n\n') + '\n'
+	}
+];
+
+/** The attributes of a list's attribute line, such as `{.compact #glossary}`, as HTML attributes */
+function htmlAttributes(attributes: ListAttributes | null): string {
+	if (!attributes)
+		return '';
+	const html: string[] = [];
+	if (attributes.id)
+		html.push(`id="${escapeHtml(attributes.id)}"`);
+	if (attributes.classes.length)
+		html.push(`class="${escapeHtml(attributes.classes.join(' '))}"`);
+	for (const [key, value] of Object.entries(attributes.attributes))
+		if (!key.toLowerCase().startsWith('on'))  // no event handlers, as in Reading View
+			html.push(`${key}="${escapeHtml(value)}"`);
+	return html.length ? ' ' + html.join(' ') : '';
+}
+
+/** The <dt> and <dd> elements of the items; a nested definition list goes inside its <dd> */
+export function htmlItems(items: DefinitionListItem[], indent: string): string[] {
+	const html: string[] = [];
+	for (const item of items) {
+		for (const term of item.terms)
+			html.push(`${indent}<dt>${convertInline(lineContent(term), HTML_INLINE)}</dt>`);
+		for (const definition of item.definitions) {
+			html.push(`${indent}<dd>`);
+			for (const part of definitionParts(definition)) {
+				if (part.kind === 'text')
+					html.push(`${indent}  ${part.lines.map(l => convertInline(l, HTML_INLINE)).join(`\n${indent}  `)}`);
+				else if (part.kind === 'list')
+					html.push(...htmlList(part.items, indent + '  '));
+				else
+					html.push(`${indent}  <dl>`, ...htmlItems(part.items, indent + '    '), `${indent}  </dl>`);
+			}
+			html.push(`${indent}</dd>`);
+		}
+	}
+	return html;
+}
+
+/** One item in Pandoc syntax; a nested definition list is indented like the rest of the definition */
+function pandocItem(item: DefinitionListItem): string[] {
+	const lines: string[] = item.terms.map(term => convertInline(lineContent(term), MARKDOWN_INLINE));
+	const parts: DefinitionPart[][] = item.definitions.map(definitionParts);
+	const loose: boolean = parts.some(p => p.length > 1);
+	parts.forEach((definition, d) => {
+		if (loose && d > 0)
+			lines.push('');
+		definition.forEach((part, i) => {
+			if (i > 0)
+				lines.push('');  // paragraphs and lists inside a definition need a blank line
+			const partLines: string[] =
+				part.kind === 'text' ? part.lines.map(l => convertInline(l, MARKDOWN_INLINE)) :
+				part.kind === 'list' ? convertList(part.items, MARKDOWN_INLINE, listItem =>
+					'    '.repeat(listItem.depth) + (listItem.ordered ? '1. ' : '- ')) :
+				part.items.map(nestedItem => pandocItem(nestedItem).join('\n')).join('\n\n').split('\n');
+			// the marker starts the definition; everything else is indented to its level
+			partLines.forEach((line, j) =>
+				lines.push(i === 0 && j === 0 ? ':   ' + line : line.length ? '    ' + line : ''));
+		});
+	});
+	return lines;
+}
+
+/** One item as an AsciiDoc labeled list item; a nested list gets a longer delimiter */
+function asciidocItem(item: DefinitionListItem, depth: number): string[] {
+	const lines: string[] = item.terms.map(term =>
+		convertInline(lineContent(term), ASCIIDOC_INLINE) + ':'.repeat(depth + 2));
+	item.definitions.forEach((definition, d) => {
+		definitionParts(definition).forEach((part, i) => {
+			if (part.kind === 'definitionList') {
+				lines.push(...part.items.reduce((all, nestedItem) =>
+					all.concat(asciidocItem(nestedItem, depth + 1)), [] as string[]));
+				return;
+			}
+			if (d > 0 || i > 0)
+				lines.push('+');  // attach the part to the same definition
+			if (part.kind === 'text')
+				lines.push(...part.lines.map(l => convertInline(l, ASCIIDOC_INLINE)));
+			else
+				lines.push(...convertList(part.items, ASCIIDOC_INLINE, listItem =>
+					(listItem.ordered ? '.' : '*').repeat(listItem.depth + 1) + ' '));
+		});
+	});
+	return lines;
+}
+
+/** One item in reStructuredText; a nested definition list is indented like its definition */
+function rstItem(item: DefinitionListItem): string[] {
+	// reStructuredText has one term per item
+	const lines: string[] = [item.terms.map(term => convertInline(lineContent(term), RST_INLINE)).join(', ')];
+	item.definitions.forEach((definition, d) => {
+		definitionParts(definition).forEach((part, i) => {
+			if (d > 0 || i > 0)
+				lines.push('');
+			if (part.kind === 'text')
+				lines.push(...part.lines.map(l => '   ' + convertInline(l, RST_INLINE)));
+			else if (part.kind === 'list')
+				lines.push(...convertList(part.items, RST_INLINE, listItem =>
+					'   ' + '  '.repeat(listItem.depth) + (listItem.ordered ? '#. ' : '* ')));
+			else
+				lines.push(...part.items.map(nestedItem => rstItem(nestedItem).join('\n')).join('\n\n')
+					.split('\n').map(line => line.length ? '   ' + line : ''));
+		});
+	});
+	return lines;
+}
+
+/** The \item's of a description environment; a nested list is a description environment inside it.
+ * The braces keep a `]` in the term from ending the label. */
+function latexItems(items: DefinitionListItem[], indent: string): string[] {
+	const latex: string[] = [];
+	for (const item of items) {
+		latex.push(...item.terms.map(term => `${indent}\\item[{${convertInline(lineContent(term), LATEX_INLINE)}}]`));
+		if (!item.terms.length)
+			latex.push(`${indent}\\item`);
+		item.definitions.forEach((definition, d) => {
+			if (d > 0)
+				latex.push('');  // a new paragraph
+			for (const part of definitionParts(definition)) {
+				if (part.kind === 'text')
+					latex.push(...part.lines.map(l => `${indent}  ` + convertInline(l, LATEX_INLINE)));
+				else if (part.kind === 'list')
+					latex.push(...latexList(part.items, indent + '  '));
+				else
+					latex.push(`${indent}  \\begin{description}`, ...latexItems(part.items, indent + '    '),
+						`${indent}  \\end{description}`);
+			}
+		});
+	}
+	return latex;
+}
+
+/** Nested HTML lists; a nested list goes inside the <li> of its parent item */
+export function htmlList(items: ListItem[], indent: string): string[] {
+	const tag: string = items[0]?.ordered ? 'ol' : 'ul';
+	const html: string[] = [`${indent}<${tag}>`];
+	for (let i = 0; i < items.length;) {
+		let j = i + 1;  // the items after i that are nested inside it
+		while (j < items.length && items[j].depth > items[i].depth)
+			j++;
+		const text: string = convertInline(items[i].text, HTML_INLINE);
+		if (j > i + 1)
+			html.push(`${indent}  <li>${text}`, ...htmlList(items.slice(i + 1, j), indent + '    '), `${indent}  </li>`);
+		else
+			html.push(`${indent}  <li>${text}</li>`);
+		i = j;
+	}
+	html.push(`${indent}</${tag}>`);
+	return html;
+}
+
+/** Nested LaTeX itemize/enumerate environments */
+function latexList(items: ListItem[], indent: string): string[] {
+	const latex: string[] = [];
+	const open: string[] = [];
+	for (const item of items) {
+		while (open.length > item.depth + 1)
+			latex.push(indent + '  '.repeat(open.length - 1) + `\\end{${open.pop()}}`);
+		while (open.length < item.depth + 1) {
+			const environment = item.ordered ? 'enumerate' : 'itemize';
+			latex.push(indent + '  '.repeat(open.length) + `\\begin{${environment}}`);
+			open.push(environment);
+		}
+		latex.push(indent + '  '.repeat(open.length) + `\\item ${convertInline(item.text, LATEX_INLINE)}`);
+	}
+	while (open.length)
+		latex.push(indent + '  '.repeat(open.length - 1) + `\\end{${open.pop()}}`);
+	return latex;
+}
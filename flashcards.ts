@@ -0,0 +1,155 @@
+import {App, FuzzySuggestModal, Notice, TFile, TFolder, normalizePath} from 'obsidian';
+import {containsMarker} from './parser';
+import {Flashcard, flashcardsOf} from './cards';
+import {tagsOf} from './glossary';
+
+/* Flashcards
+ * ==========
+ * Writes the items of the definition lists of a note, a folder or a tag as
+ * flashcards that Anki can import: one card per item, with its terms on the
+ * front and its definitions, as HTML, on the back. Terms that share their
+ * definitions share a card; an item with several definitions gets them as a
+ * numbered list; lists and definition lists inside a definition go along.
+ * The file starts with Anki's header lines, so Anki knows the separator and
+ * the columns. With ids switched on, each card has a GUID made from its first
+ * term (see cards.ts), so importing it again updates the card instead of
+ * adding a new one, even after its definitions have been edited or the note
+ * has been renamed.
+ */
+
+export interface FlashcardSettings {
+	flashcardIds: boolean;
+}
+
+interface FlashcardFormat {
+	name: string,
+	extension: string,
+	separator: string,
+	/** the name of the separator in Anki's #separator header */
+	ankiSeparator: string
+}
+const FLASHCARD_FORMATS: FlashcardFormat[] = [
+	{name: 'Anki, tab-separated (TSV)', extension: 'tsv', separator: '\t', ankiSeparator: 'tab'},
+	{name: 'Anki, comma-separated (CSV)', extension: 'csv', separator: ',', ankiSeparator: 'comma'}
+];
+
+/** A note, folder or tag whose definition lists are exported */
+interface FlashcardSource {
+	name: string,
+	/** the name of the exported file, without extension */
+	title: string,
+	/** where the exported file goes */
+	folder: string,
+	files: () => TFile[]
+}
+
+/** A field of the file, quoted if it has a separator or quote in it */
+function field(value: string, separator: string): string {
+	return value.includes(separator) || /["\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+/** The cards as a file for Anki, with the header lines that describe it */
+function writeFlashcards(cards: Flashcard[], format: FlashcardFormat, withIds: boolean): string {
+	const lines: string[] = [
+		`#separator:${format.ankiSeparator}`,
+		'#html:true',
+		...(withIds ? ['#guid column:1'] : []),
+		`#tags column:${withIds ? 4 : 3}`
+	];
+	for (const card of cards) {
+		// Anki's tags have no '#', and '::' for a hierarchy
+		const columns: string[] = [card.front, card.back, card.tags.map(tag => tag.replace(/\//g, '::')).join(' ')];
+		if (withIds)
+			columns.unshift(card.id);
+		lines.push(columns.map(column => field(column, format.separator)).join(format.separator));
+	}
+	return lines.join('\n') + '\n';
+}
+
+/** The active note, every folder and every tag */
+function flashcardSources(app: App): FlashcardSource[] {
+	const sources: FlashcardSource[] = [];
+	const notes: TFile[] = app.vault.getMarkdownFiles();
+	const note: TFile | null = app.workspace.getActiveFile();
+	if (note?.extension === 'md')
+		sources.push({name: `Note: ${note.basename}`, title: note.basename, folder: note.parent?.path ?? '',
+			files: () => [note]});
+	for (const folder of app.vault.getAllLoadedFiles()) {
+		if (!(folder instanceof TFolder))
+			continue;
+		sources.push({
+			name: `Folder: ${folder.isRoot() ? '/' : folder.path}`,
+			title: folder.isRoot() ? app.vault.getName() : folder.name,
+			folder: folder.path,
+			files: () => notes.filter(file => folder.isRoot() || file.path.startsWith(folder.path + '/'))
+		});
+	}
+	const tags: Set<string> = new Set();
+	notes.forEach(file => tagsOf(app, file).forEach(tag => tags.add(tag)));
+	for (const tag of [...tags].sort())
+		sources.push({
+			name: `Tag: #${tag}`,
+			title: tag.replace(/\//g, '-'),
+			folder: '',
+			files: () => notes.filter(file => tagsOf(app, file).some(t => t === tag || t.startsWith(tag + '/')))
+		});
+	return sources;
+}
+
+/** Lets the user choose one of the items, then calls back with it */
+class ChoiceModal<T> extends FuzzySuggestModal<T> {
+	private readonly items: T[];
+	private readonly text: (item: T) => string;
+	private readonly onChoose: (item: T) => void;
+
+	constructor(app: App, placeholder: string, items: T[], text: (item: T) => string, onChoose: (item: T) => void) {
+		super(app);
+		this.items = items;
+		this.text = text;
+		this.onChoose = onChoose;
+		this.setPlaceholder(placeholder);
+	}
+	getItems(): T[] {
+		return this.items;
+	}
+	getItemText(item: T): string {
+		return this.text(item);
+	}
+	onChooseItem(item: T): void {
+		this.onChoose(item);
+	}
+}
+
+/** Writes the flashcards of the source to a new file in its folder */
+async function exportSource(app: App, source: FlashcardSource, format: FlashcardFormat, withIds: boolean): Promise<void> {
+	const cards: Flashcard[] = [];
+	const files: TFile[] = source.files();
+	for (const file of files) {
+		const text: string = await app.vault.cachedRead(file);
+		if (containsMarker(text))
+			cards.push(...flashcardsOf(text, tagsOf(app, file)));
+	}
+	if (!cards.length) {
+		new Notice(`No definition lists found in ${source.name}`);
+		return;
+	}
+	let path: string, n: number = 0;
+	do {
+		path = normalizePath(`${source.folder}/${source.title} (anki)${n ? ' ' + n : ''}.${format.extension}`);
+		n++;
+	} while (app.vault.getAbstractFileByPath(path));
+	await app.vault.create(path, writeFlashcards(cards, format, withIds));
+	new Notice(`${cards.length} flashcard(s) from ${files.length} note(s) exported to ${path}`);
+}
+
+/** Asks for a note, folder or tag and a format, and exports the flashcards */
+export function exportFlashcards(app: App, settings: FlashcardSettings): void {
+	new ChoiceModal(app, 'Export flashcards from the note, folder or tag...', flashcardSources(app),
+		source => source.name,
+		source => new ChoiceModal(app, 'Export flashcards as...', FLASHCARD_FORMATS,
+			format => format.name,
+			format => exportSource(app, source, format, settings.flashcardIds)
+				.catch(e => new Notice(`Could not export flashcards: ${(e as Error).message}`))
+		).open()
+	).open();
+}
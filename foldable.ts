@@ -0,0 +1,57 @@
+import {Block, DefinitionListItem, DefinitionListLine, groupItems, lineContent, termSlug} from './parser';
+
+/* The foldable items of a note
+ * ============================
+ * The items that folding.ts folds, found in the blocks of a note without
+ * anything from Obsidian. An item is saved under the slug of its first
+ * term (see termSlug); the second item with the same first term in the
+ * note is saved as `slug-2`, the third as `slug-3`, and so on, so that
+ * they are folded one by one.
+ */
+
+/** An item with definitions to fold */
+export interface FoldableItem {
+	/** the slug of its first term and how often that term has come before, under which it's saved */
+	slug: string,
+	/** the line of its last term, after which the fold starts */
+	termLine: number,
+	/** the last line of its definitions that isn't empty */
+	lastLine: number
+}
+
+/** The items of the blocks that can be folded, including those of nested lists, in document order */
+export function foldableItems(blocks: Block[]): FoldableItem[] {
+	const foldable: FoldableItem[] = [];
+	for (const block of blocks) {
+		if (!block.isDefinitionList)
+			continue;
+		const items: {item: DefinitionListItem, depth: number}[] = block.items.map(item => ({item, depth: 0}));
+		for (const {item, depth} of items) {
+			const lines: DefinitionListLine[] = [];
+			item.definitions.forEach(definition => lines.push(...definition.lines.filter(l => l.role !== 'empty')));
+			if (item.terms.length && lines.length)
+				foldable.push({
+					slug: termSlug(lineContent(item.terms[0])),
+					termLine: item.terms[item.terms.length - 1].number,
+					lastLine: lines[lines.length - 1].number
+				});
+			for (const definition of item.definitions)
+				items.push(...groupItems(definition.lines.filter(line => line.depth > depth), depth + 1)
+					.map(nested => ({item: nested, depth: depth + 1})));
+		}
+	}
+	foldable.sort((a, b) => a.termLine - b.termLine);
+	numberSlugs(foldable);
+	return foldable;
+}
+
+/** Adds how often the slug has come before to the slugs that aren't the first: `slug`, `slug-2`, `slug-3` */
+export function numberSlugs(items: {slug: string}[]): void {
+	const counts: Map<string, number> = new Map();
+	for (const item of items) {
+		const n: number = (counts.get(item.slug) ?? 0) + 1;
+		counts.set(item.slug, n);
+		if (n > 1)
+			item.slug = `${item.slug}-${n}`;
+	}
+}
@@ -0,0 +1,301 @@
+import {
+	MarkdownPostProcessorContext, MarkdownSectionInformation, MarkdownView, Plugin, TAbstractFile, debounce,
+	editorInfoField
+} from 'obsidian';
+import {EditorView, PluginValue, ViewPlugin, ViewUpdate} from '@codemirror/view';
+import {EditorState, StateEffect} from '@codemirror/state';
+import {codeFolding, foldEffect, foldService, foldState, foldedRanges, unfoldEffect} from '@codemirror/language';
+import {Block, blockIndexAt, parseMarkdown, termSlug} from './parser';
+import {FoldableItem, foldableItems, numberSlugs} from './foldable';
+import {BlocksOfEditor} from './outline';
+
+/* Folded definitions
+ * ==================
+ * The definitions of an item can be folded away, so that only its terms
+ * remain. In the editor, the last term of an item gets a CodeMirror fold
+ * range over its definitions, made from the blocks that the
+ * DocumentDecorationEngine keeps; in Reading View, clicking a <dt> hides
+ * or shows the <dd>s of its item. The folded items of every note are
+ * kept in the plugin's data, under the slug of their first term (see
+ * foldableItems), so that they stay folded when the note is opened again and
+ * in both views. The FoldKeeper saves the folds made in the editor and
+ * restores them when a note is opened.
+ */
+
+export interface FoldSettings {
+	/** the slugs of the folded items, per note path */
+	folds: Record<string, string[]>;
+}
+
+const FOLDABLE_CLASS: string = 'dl-foldable';
+const FOLDED_CLASS: string = 'dl-folded';
+const HIDDEN_CLASS: string = 'dl-fold-hidden';
+
+/** The folded items of every note, saved with the settings */
+class FoldState {
+	private readonly settings: FoldSettings;
+	private readonly save: () => void;
+
+	constructor(plugin: Plugin, settings: FoldSettings, save: () => Promise<void>) {
+		this.settings = settings;
+		// a fold-all command changes many items at once
+		this.save = debounce(() => {
+			save().catch(e => console.error('[DL] Could not save the folded definitions', e));
+		}, 1000, true);
+		plugin.registerEvent(plugin.app.vault.on('rename', (file: TAbstractFile, oldPath: string) =>
+			this.replace(oldPath, file.path)));
+		plugin.registerEvent(plugin.app.vault.on('delete', (file: TAbstractFile) => this.replace(file.path, null)));
+	}
+
+	folded(path: string): string[] {
+		return this.settings.folds[path] ?? [];
+	}
+
+	isFolded(path: string, slug: string): boolean {
+		return this.folded(path).includes(slug);
+	}
+
+	setFolded(path: string, slug: string, folded: boolean): void {
+		if (this.isFolded(path, slug) === folded)
+			return;
+		const slugs: string[] = this.folded(path).filter(s => s !== slug);
+		if (folded)
+			slugs.push(slug);
+		this.replace(path, path, slugs);
+	}
+
+	/* Moves the folds of a note to another path, or removes them; the record is replaced, not changed */
+	private replace(oldPath: string, newPath: string | null, slugs: string[] = this.folded(oldPath)): void {
+		if (!(oldPath in this.settings.folds) && !slugs.length)
+			return;
+		const folds: Record<string, string[]> = {...this.settings.folds};
+		delete folds[oldPath];
+		if (newPath && slugs.length)
+			folds[newPath] = slugs;
+		this.settings.folds = folds;
+		this.save();
+	}
+}
+
+/* Editor */
+/* The blocks of the editor of the state, through Obsidian's MarkdownView; a fold service only gets the state */
+function blocksOfState(state: EditorState, blocksOf: BlocksOfEditor): Block[] | null {
+	const view = state.field(editorInfoField, false);
+	const cm: EditorView | undefined = (view?.editor as unknown as {cm?: EditorView} | undefined)?.cm;
+	return cm ? blocksOf(cm) : null;
+}
+
+/* The foldable item whose last term is on the line, for its fold range; the engine's blocks may lag behind the
+ * state. Only the block of the line is read, so the number in its slug may be wrong */
+function itemAt(state: EditorState, blocks: Block[], lnr: number): FoldableItem | undefined {
+	const block: Block | undefined = blocks[blockIndexAt(blocks, lnr)];
+	const item = block ? foldableItems([block]).find(i => i.termLine === lnr) : undefined;
+	return item && item.lastLine <= state.doc.lines ? item : undefined;
+}
+
+function foldRange(state: EditorState, item: FoldableItem): {from: number, to: number} {
+	return {from: state.doc.line(item.termLine).to, to: state.doc.line(item.lastLine).to};
+}
+
+/** Folds or unfolds the items in the editor; all of them, or those with one of the slugs */
+function foldItems(view: EditorView, blocks: Block[], fold: boolean, slugs: string[] | null = null): void {
+	const state: EditorState = view.state;
+	const effects: StateEffect<unknown>[] = [];
+	if (fold && !state.field(foldState, false))
+		effects.push(StateEffect.appendConfig.of(codeFolding()));
+	for (const item of foldableItems(blocks)) {
+		if ((slugs && !slugs.includes(item.slug)) || item.lastLine > state.doc.lines)
+			continue;
+		const range = foldRange(state, item);
+		// a fold that has been edited has other bounds than the item
+		let folded: {from: number, to: number} | null = null;
+		foldedRanges(state).between(range.from, range.from, (from, to) => {
+			if (from === range.from)
+				folded = {from, to};
+		});
+		if (fold && !folded)
+			effects.push(foldEffect.of(range));
+		else if (!fold && folded)
+			effects.push(unfoldEffect.of(folded));
+	}
+	if (effects.length)
+		view.dispatch({effects});
+}
+
+/** Saves the folds made in the editor, and restores the saved ones when a note is opened */
+class FoldKeeper implements PluginValue {
+	private readonly folds: FoldState;
+	private readonly blocksOf: BlocksOfEditor;
+	/* the note whose folds have been restored; Obsidian may show another note in the same editor */
+	private restoredPath: string | null = null;
+
+	constructor(folds: FoldState, blocksOf: BlocksOfEditor) {
+		this.folds = folds;
+		this.blocksOf = blocksOf;
+	}
+
+	update(update: ViewUpdate): void {
+		const path: string | undefined = update.state.field(editorInfoField, false)?.file?.path;
+		const blocks: Block[] | null = this.blocksOf(update.view);
+		if (!path || !blocks)
+			return;  // the engine hasn't parsed the document yet
+		if (path !== this.restoredPath) {
+			this.restoredPath = path;
+			const slugs: string[] = this.folds.folded(path);
+			// an update can't dispatch a transaction of its own
+			if (slugs.length)
+				window.setTimeout(() => foldItems(update.view, blocks, true, slugs));
+			return;
+		}
+		for (const transaction of update.transactions)
+			for (const effect of transaction.effects) {
+				if (!effect.is(foldEffect) && !effect.is(unfoldEffect))
+					continue;
+				const range: {from: number, to: number} = effect.value;
+				const lnr: number = transaction.state.doc.lineAt(range.from).number;
+				// all items, for the number in the slug
+				const item: FoldableItem | undefined = foldableItems(blocks).find(i =>
+					i.termLine === lnr && i.lastLine <= transaction.state.doc.lines);
+				if (item)
+					this.folds.setFolded(path, item.slug, effect.is(foldEffect));
+			}
+	}
+}
+
+/* Reading View */
+/* The <dd>s of the item of the <dt>, and its <dt>s */
+function itemElements(dt: HTMLElement): {terms: HTMLElement[], definitions: HTMLElement[]} {
+	let first: HTMLElement = dt;
+	while (first.previousElementSibling?.tagName === 'DT')
+		first = first.previousElementSibling as HTMLElement;
+	const terms: HTMLElement[] = [], definitions: HTMLElement[] = [];
+	for (let el: Element | null = first; el && (el.tagName === 'DT' ? !definitions.length : el.tagName === 'DD');
+	     el = el.nextElementSibling)
+		(el.tagName === 'DT' ? terms : definitions).push(el as HTMLElement);
+	return {terms, definitions};
+}
+
+function showFolded(dt: HTMLElement, folded: boolean): void {
+	const {terms, definitions} = itemElements(dt);
+	terms.forEach(term => {
+		term.toggleClass(FOLDED_CLASS, folded);
+		term.setAttribute('aria-expanded', String(!folded));
+	});
+	definitions.forEach(definition => definition.toggleClass(HIDDEN_CLASS, folded));
+}
+
+/* The <dt>s of the items with definitions, the first of each item */
+function foldableTerms(element: HTMLElement): HTMLElement[] {
+	return element.findAll('dl > dt').filter(dt =>
+		dt.previousElementSibling?.tagName !== 'DT' && itemElements(dt).definitions.length &&
+		!dt.closest('.dl-embed, .dl-query'));
+}
+
+/* The slug of an item, which definitionFoldProcessor keeps on its first <dt> */
+function slugOf(dt: HTMLElement): string {
+	return dt.dataset.foldSlug ?? termSlug(dt.textContent ?? '');
+}
+
+/* The foldable items of the last note text, as every section of a note is processed with the same text */
+let parsedText: string | null = null;
+let parsedItems: FoldableItem[] = [];
+
+/* The slugs of the foldable <dt>s of a section, numbered in the whole note if its source is known, else in the
+ * section only */
+function sectionSlugs(terms: HTMLElement[], info: MarkdownSectionInformation | null): string[] {
+	if (info) {
+		if (info.text !== parsedText) {
+			parsedItems = foldableItems(parseMarkdown(info.text, 0));
+			parsedText = info.text;
+		}
+		const items: FoldableItem[] = parsedItems.filter(item =>
+			item.termLine >= info.lineStart && item.termLine <= info.lineEnd);
+		if (items.length === terms.length)
+			return items.map(item => item.slug);
+	}
+	// the id of a <dt>, which postProcessDefinitionLists sets, is the slug of its term
+	const items: {slug: string}[] = terms.map(dt => ({slug: dt.id || termSlug(dt.textContent ?? '')}));
+	numberSlugs(items);
+	return items.map(item => item.slug);
+}
+
+/** Makes the <dt>s of the definition lists fold their item when clicked */
+function definitionFoldProcessor(folds: FoldState) {
+	return (element: HTMLElement, context: MarkdownPostProcessorContext): void => {
+		if (element.classList.contains('markdown-rendered'))
+			return;  // a PDF has all definitions
+		const firsts: HTMLElement[] = foldableTerms(element);
+		const slugs: string[] = sectionSlugs(firsts, context.getSectionInfo(element));
+		firsts.forEach((first, i) => {
+			const slug: string = slugs[i];
+			first.dataset.foldSlug = slug;
+			const {terms} = itemElements(first);
+			const toggle = () => {
+				const folded: boolean = !first.hasClass(FOLDED_CLASS);
+				showFolded(first, folded);
+				folds.setFolded(context.sourcePath, slug, folded);
+			};
+			for (const term of terms) {
+				term.addClass(FOLDABLE_CLASS);
+				term.tabIndex = 0;
+				term.addEventListener('click', event => {
+					// links in the term keep working
+					if (!(event.target as HTMLElement).closest('a'))
+						toggle();
+				});
+				term.addEventListener('keydown', event => {
+					if (event.key === 'Enter' || event.key === ' ') {
+						event.preventDefault();
+						toggle();
+					}
+				});
+			}
+			showFolded(first, folds.isFolded(context.sourcePath, slug));
+		});
+	};
+}
+
+/** Folds or unfolds all items of the note in the view, in the mode it's in */
+function foldAll(view: MarkdownView, folds: FoldState, blocksOf: BlocksOfEditor, fold: boolean): void {
+	if (!view.file)
+		return;
+	if (view.getMode() === 'preview') {
+		for (const dt of foldableTerms(view.previewMode.containerEl)) {
+			showFolded(dt, fold);
+			folds.setFolded(view.file.path, slugOf(dt), fold);
+		}
+		return;
+	}
+	const cm: EditorView | undefined = (view.editor as unknown as {cm?: EditorView}).cm;
+	const blocks: Block[] | null = cm ? blocksOf(cm) : null;
+	if (cm && blocks)
+		foldItems(cm, blocks, fold);  // the FoldKeeper saves them
+}
+
+/** Registers the folding of definitions in the editor and in Reading View, and its commands */
+export function registerDefinitionFolds(plugin: Plugin, settings: FoldSettings, save: () => Promise<void>,
+                                        blocksOf: BlocksOfEditor): void {
+	const folds = new FoldState(plugin, settings, save);
+	plugin.registerEditorExtension([
+		foldService.of((state: EditorState, lineStart: number) => {
+			const blocks: Block[] | null = blocksOfState(state, blocksOf);
+			const item = blocks ? itemAt(state, blocks, state.doc.lineAt(lineStart).number) : undefined;
+			return item ? foldRange(state, item) : null;
+		}),
+		ViewPlugin.define(() => new FoldKeeper(folds, blocksOf))
+	]);
+	plugin.registerMarkdownPostProcessor(definitionFoldProcessor(folds), 100);
+	for (const fold of [true, false])
+		plugin.addCommand({
+			id: fold ? 'fold-all-definitions' : 'unfold-all-definitions',
+			name: fold ? 'Fold all definitions' : 'Unfold all definitions',
+			checkCallback: (checking: boolean) => {
+				const view: MarkdownView | null = plugin.app.workspace.getActiveViewOfType(MarkdownView);
+				if (!view)
+					return false;
+				if (!checking)
+					foldAll(view, folds, blocksOf, fold);
+				return true;
+			}
+		});
+}
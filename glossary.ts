@@ -0,0 +1,211 @@
+import {
+	App, Events, ItemView, MarkdownView, Plugin, TAbstractFile, TFile, WorkspaceLeaf, debounce, getAllTags
+} from 'obsidian';
+import {containsMarker, parseDefinitionLists, definitionText, lineContent} from './parser';
+
+/* Vault-wide glossary
+ * ===================
+ * The GlossaryIndex keeps the terms of every definition list in the vault.
+ * It reads all Markdown files once when the workspace is ready; after that,
+ * only files that are created, modified, renamed or deleted are (re)indexed.
+ * The GlossaryView shows the indexed terms in a sidebar, alphabetically,
+ * with a search box; clicking a term opens the note at its defining line.
+ */
+
+export const VIEW_TYPE_GLOSSARY: string = 'definition-list-glossary';
+
+export interface GlossaryEntry {
+	term: string,
+	definitions: string[],
+	file: TFile,
+	/** the line of the term, 0-based as in the Obsidian editor */
+	line: number
+}
+
+function isNote(file: TAbstractFile): file is TFile {
+	return file instanceof TFile && file.extension === 'md';
+}
+
+/* What the entries of a file say, to tell whether they have changed */
+function signature(entries: GlossaryEntry[]): string {
+	return JSON.stringify(entries.map(entry => [entry.term, entry.line, entry.definitions]));
+}
+
+/**
+ * Index of all terms in the vault, per file. Triggers 'changed' and
+ * 'file-changed', with the TFile, whenever the terms or definitions of a
+ * file have changed, and 'ready' once every file has been read.
+ */
+export class GlossaryIndex extends Events {
+	private readonly app: App;
+	private readonly entriesByPath: Map<string, GlossaryEntry[]> = new Map();
+	public ready: boolean = false;
+	/** increases with every change, so users of the index can tell whether it's changed */
+	public version: number = 0;
+
+	constructor(plugin: Plugin) {
+		super();
+		this.app = plugin.app;
+		const vault = this.app.vault;
+		plugin.registerEvent(vault.on('create', file => this.ready && this.indexFile(file)));
+		plugin.registerEvent(vault.on('modify', file => this.indexFile(file)));
+		plugin.registerEvent(vault.on('delete', file => {
+			if (this.entriesByPath.delete(file.path)) {
+				this.changed();
+				this.trigger('file-changed', file);
+			}
+		}));
+		plugin.registerEvent(vault.on('rename', async (file, oldPath) => {
+			const before: GlossaryEntry[] | undefined = this.entriesByPath.get(oldPath);
+			this.entriesByPath.delete(oldPath);
+			// a note renamed to another extension is no longer indexed
+			const entries: GlossaryEntry[] = isNote(file) ? await this.readEntries(file) : [];
+			if (isNote(file))
+				this.entriesByPath.set(file.path, entries);
+			// the entries have moved to the new path, or are gone
+			if (before?.length || entries.length) {
+				this.changed();
+				this.trigger('file-changed', file);
+			}
+		}));
+		this.app.workspace.onLayoutReady(() => this.build());
+	}
+
+	private changed(): void {
+		this.version++;
+		this.trigger('changed');
+	}
+
+	/** Reads every Markdown file in the vault; only needed once */
+	async build(): Promise<void> {
+		for (const file of this.app.vault.getMarkdownFiles())
+			this.entriesByPath.set(file.path, await this.readEntries(file));
+		this.ready = true;
+		this.changed();
+		this.trigger('ready');
+	}
+
+	async indexFile(file: TAbstractFile): Promise<void> {
+		if (!isNote(file))
+			return;
+		const entries = await this.readEntries(file);
+		const before: GlossaryEntry[] | undefined = this.entriesByPath.get(file.path);
+		if (!entries.length && !before)
+			return;  // no terms before, no terms now
+		this.entriesByPath.set(file.path, entries);
+		// saving a note doesn't mean its terms have changed
+		if (!before || signature(before) !== signature(entries)) {
+			this.changed();
+			this.trigger('file-changed', file);
+		}
+	}
+
+	private async readEntries(file: TFile): Promise<GlossaryEntry[]> {
+		const text: string = await this.app.vault.cachedRead(file);
+		if (!containsMarker(text))
+			return [];
+		const entries: GlossaryEntry[] = [];
+		for (const block of parseDefinitionLists(text, 0))
+			for (const item of block.items) {
+				const definitions = item.definitions.map(definitionText);
+				for (const term of item.terms)
+					entries.push({term: lineContent(term).trim(), definitions, file, line: term.number});
+			}
+		return entries;
+	}
+
+	/** All entries in the vault, sorted alphabetically by term */
+	public entries(): GlossaryEntry[] {
+		const all: GlossaryEntry[] = [];
+		this.entriesByPath.forEach(entries => all.push(...entries));
+		return all.sort((a, b) =>
+			a.term.localeCompare(b.term, undefined, {sensitivity: 'base'}) ||
+			a.file.path.localeCompare(b.file.path));
+	}
+
+	/** The entries of one file, in document order */
+	public entriesOf(file: TFile): GlossaryEntry[] {
+		return this.entriesByPath.get(file.path) ?? [];
+	}
+}
+
+/** Opens the note of the entry and puts the cursor on the line of the term */
+export async function openEntry(app: App, entry: GlossaryEntry): Promise<void> {
+	const leaf: WorkspaceLeaf = app.workspace.getLeaf(false);
+	await leaf.openFile(entry.file, {eState: {line: entry.line}});
+	if (leaf.view instanceof MarkdownView) {
+		const editor = leaf.view.editor;
+		editor.setCursor({line: entry.line, ch: 0});
+		editor.scrollIntoView({from: {line: entry.line, ch: 0}, to: {line: entry.line, ch: 0}}, true);
+	}
+}
+
+/** The tags of a note, without '#' */
+export function tagsOf(app: App, file: TFile): string[] {
+	const cache = app.metadataCache.getFileCache(file);
+	return (cache && getAllTags(cache) || []).map(tag => tag.slice(1));
+}
+
+/** The sidebar view that lists all terms of the vault */
+export class GlossaryView extends ItemView {
+	private readonly index: GlossaryIndex;
+	private query: string = '';
+	private listEl: HTMLElement;
+
+	constructor(leaf: WorkspaceLeaf, index: GlossaryIndex) {
+		super(leaf);
+		this.index = index;
+	}
+
+	getViewType(): string {
+		return VIEW_TYPE_GLOSSARY;
+	}
+	getDisplayText(): string {
+		return 'Glossary';
+	}
+	getIcon(): string {
+		return 'book-open';
+	}
+
+	async onOpen(): Promise<void> {
+		const container: HTMLElement = this.contentEl;
+		container.empty();
+		container.addClass('dl-glossary');
+		const search: HTMLInputElement = container.createEl('input', {
+			type: 'search', cls: 'dl-glossary-search', attr: {placeholder: 'Search terms...'}
+		});
+		search.addEventListener('input', () => {
+			this.query = search.value.toLowerCase();
+			this.render();
+		});
+		this.listEl = container.createDiv({cls: 'dl-glossary-list'});
+		// several files may change in quick succession (e.g. on sync)
+		const refresh = debounce(() => this.render(), 500, true);
+		this.registerEvent(this.index.on('changed', refresh));
+		this.render();
+	}
+
+	render(): void {
+		this.listEl.empty();
+		if (!this.index.ready) {
+			this.listEl.createDiv({cls: 'dl-glossary-empty', text: 'Indexing...'});
+			return;
+		}
+		const entries = this.index.entries().filter(entry => !this.query ||
+			entry.term.toLowerCase().includes(this.query) ||
+			entry.definitions.some(d => d.toLowerCase().includes(this.query)));
+		if (!entries.length) {
+			this.listEl.createDiv({cls: 'dl-glossary-empty', text: 'No terms found'});
+			return;
+		}
+		const defList: HTMLDListElement = this.listEl.createEl('dl');
+		for (const entry of entries) {
+			const dt = defList.createEl('dt', {text: entry.term});
+			dt.addEventListener('click', () => openEntry(this.app, entry));
+			for (const definition of entry.definitions)
+				defList.createEl('dd', {text: definition});
+			const source = defList.createEl('dd', {cls: 'dl-glossary-source', text: entry.file.basename});
+			source.addEventListener('click', () => openEntry(this.app, entry));
+		}
+	}
+}
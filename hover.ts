@@ -0,0 +1,299 @@
+import {App, MarkdownPostProcessorContext, MarkdownRenderChild, TFile, editorInfoField} from 'obsidian';
+import {
+	ViewPlugin, PluginValue, ViewUpdate, EditorView, DecorationSet, Decoration, hoverTooltip, Tooltip
+} from '@codemirror/view';
+import {EditorState, Extension, Range, RangeSet} from '@codemirror/state';
+import {syntaxTree} from '@codemirror/language';
+import {Block, DefinitionListItem, groupItems, lineContent} from './parser';
+import {GlossaryEntry, GlossaryIndex} from './glossary';
+import {BlocksOfEditor} from './outline';
+import {nodeClasses} from './linetypes';
+
+/* Hover previews of defined terms
+ * ===============================
+ * Wherever a term that's defined in a definition list occurs in the text,
+ * it gets the class 'dl-term-ref', and hovering over it shows its
+ * definitions in a popover. In Reading View this is done by a
+ * post-processor; in Live Preview by a ViewPlugin that decorates the
+ * occurrences and a CodeMirror hover tooltip. Neither marks a term in
+ * code, links or formulas, nor in its own definitions.
+ * The terms come from the GlossaryIndex: either those of the current note
+ * only, or those of the whole vault.
+ */
+
+export type HoverScope = 'off' | 'note' | 'vault';
+export interface TermHoverSettings {
+	hoverScope: HoverScope;
+	hoverCaseSensitive: boolean;
+}
+
+const REFERENCE_CLASS: string = 'dl-term-ref';
+/* The classes of the syntax nodes in the editor whose text is never marked */
+const SKIPPED_NODE_CLASSES: string[] = ['inline-code', 'hmd-codeblock', 'hmd-internal-link', 'link', 'url', 'math'];
+
+interface TermMatcher {
+	regex: RegExp,
+	entries: Map<string, GlossaryEntry[]>
+}
+
+/**
+ * Finds the terms applicable to a note, according to the settings.
+ * The regular expression that recognises them is cached, and rebuilt only
+ * when the index, the settings or the note change.
+ */
+export class TermLookup {
+	private readonly app: App;
+	private readonly index: GlossaryIndex;
+	private readonly settings: TermHoverSettings;
+	private cacheVersion: number = -1;
+	private readonly cache: Map<string, TermMatcher | null> = new Map();
+
+	constructor(app: App, index: GlossaryIndex, settings: TermHoverSettings) {
+		this.app = app;
+		this.index = index;
+		this.settings = settings;
+	}
+
+	public normalise(term: string): string {
+		return this.settings.hoverCaseSensitive ? term : term.toLowerCase();
+	}
+
+	/** The matcher for the terms that apply to the file, or null if there are none */
+	public matcher(file: TFile | null): TermMatcher | null {
+		const {hoverScope, hoverCaseSensitive} = this.settings;
+		if (hoverScope === 'off' || (hoverScope === 'note' && !file))
+			return null;
+		if (this.cacheVersion !== this.index.version) {
+			this.cache.clear();
+			this.cacheVersion = this.index.version;
+		}
+		const key = [hoverScope, hoverCaseSensitive, hoverScope === 'note' ? file.path : ''].join('|');
+		if (this.cache.has(key))
+			return this.cache.get(key);
+
+		const entries: Map<string, GlossaryEntry[]> = new Map();
+		for (const entry of hoverScope === 'note' ? this.index.entriesOf(file) : this.index.entries()) {
+			if (!entry.term) continue;
+			const normalised = this.normalise(entry.term);
+			entries.set(normalised, [...(entries.get(normalised) ?? []), entry]);
+		}
+		// longest terms first, so that 'climate sensitivity' wins over 'climate'
+		const alternatives: string[] = [...entries.keys()]
+			.sort((a, b) => b.length - a.length)
+			.map(term => term.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'));
+		const matcher: TermMatcher | null = alternatives.length ? {
+			regex: new RegExp(`(?<![\\p{L}\\p{N}])(?:${alternatives.join('|')})(?![\\p{L}\\p{N}])`,
+				hoverCaseSensitive ? 'gu' : 'giu'),
+			entries
+		} : null;
+		this.cache.set(key, matcher);
+		return matcher;
+	}
+
+	/** The entries of the term that was matched in the text */
+	public entriesOf(matcher: TermMatcher, matchedText: string): GlossaryEntry[] {
+		return matcher.entries.get(this.normalise(matchedText)) ?? [];
+	}
+
+	public fileByPath(path: string): TFile | null {
+		const file = this.app.vault.getAbstractFileByPath(path);
+		return file instanceof TFile ? file : null;
+	}
+}
+
+/** All matches of the (global) regex in the text */
+function findAll(regex: RegExp, text: string): RegExpExecArray[] {
+	const matches: RegExpExecArray[] = [];
+	regex.lastIndex = 0;
+	let match: RegExpExecArray | null;
+	while ((match = regex.exec(text)))
+		matches.push(match);
+	return matches;
+}
+
+/** The contents of the popover: a <dl> with the term and its definitions from every note */
+function createPopoverContent(entries: GlossaryEntry[]): HTMLElement {
+	const popover: HTMLDivElement = document.createElement('div');
+	popover.addClass('dl-term-popover');
+	const defList: HTMLDListElement = popover.createEl('dl');
+	for (const entry of entries) {
+		defList.createEl('dt', {text: entry.term});
+		for (const definition of entry.definitions)
+			defList.createEl('dd', {text: definition});
+		defList.createEl('dd', {cls: 'dl-term-popover-source', text: entry.file.basename});
+	}
+	return popover;
+}
+
+/* Reading View and PDF */
+/* The popover of the references in a section. It's removed when the section
+ * is rendered again or closed, or when anything scrolls, even if the mouse
+ * never leaves the reference. */
+class ReferencePopover extends MarkdownRenderChild {
+	private popover: HTMLElement | null = null;
+
+	show(span: HTMLElement, entries: GlossaryEntry[]): void {
+		this.hide();
+		this.popover = createPopoverContent(entries);
+		this.popover.addClass('dl-term-popover-floating');
+		const rect = span.getBoundingClientRect();
+		this.popover.style.left = `${rect.left}px`;
+		this.popover.style.top = `${rect.bottom + 4}px`;
+		document.body.appendChild(this.popover);
+	}
+
+	hide(): void {
+		this.popover?.remove();
+		this.popover = null;
+	}
+
+	onload(): void {
+		this.registerDomEvent(document, 'scroll', () => this.hide(), true);
+	}
+
+	onunload(): void {
+		this.hide();
+	}
+}
+
+/** Wraps the occurrences of defined terms in a <span> that shows a popover on hover */
+export function markTermReferences(lookup: TermLookup, element: HTMLElement,
+                                   context: MarkdownPostProcessorContext): void {
+	const matcher = lookup.matcher(lookup.fileByPath(context.sourcePath));
+	if (!matcher)
+		return;
+	const walker: TreeWalker = document.createTreeWalker(element, NodeFilter.SHOW_TEXT);
+	const textNodes: Text[] = [];
+	while (walker.nextNode()) {
+		const node = walker.currentNode as Text;
+		// not in the defining terms themselves, nor in code, links or formulas
+		if (!node.parentElement?.closest(`dt, code, pre, a, .math, .${REFERENCE_CLASS}`))
+			textNodes.push(node);
+	}
+	let popover: ReferencePopover | null = null;
+	for (const node of textNodes) {
+		const text: string = node.textContent;
+		const fragment: DocumentFragment = document.createDocumentFragment();
+		let last = 0;
+		for (const match of findAll(matcher.regex, text)) {
+			fragment.append(text.slice(last, match.index));
+			const span: HTMLSpanElement = fragment.createSpan({cls: REFERENCE_CLASS, text: match[0]});
+			const entries = lookup.entriesOf(matcher, match[0]);
+			if (!popover) {
+				popover = new ReferencePopover(element);
+				context.addChild(popover);
+			}
+			const sectionPopover: ReferencePopover = popover;
+			span.addEventListener('mouseenter', () => sectionPopover.show(span, entries));
+			span.addEventListener('mouseleave', () => sectionPopover.hide());
+			last = match.index + match[0].length;
+		}
+		if (!last) continue;
+		fragment.append(text.slice(last));
+		node.replaceWith(fragment);
+	}
+}
+
+/* Live Preview and Source mode */
+/* true if the text at the position is code, a link or a formula */
+function inSkippedNode(state: EditorState, pos: number): boolean {
+	for (let node = syntaxTree(state).resolveInner(pos, 1); node; node = node.parent)
+		if (nodeClasses(node.name).some(cls => SKIPPED_NODE_CLASSES.includes(cls)))
+			return true;
+	return false;
+}
+
+/* The terms that each line between `from` and `to` is (part of) a definition of */
+function definedTermsByLine(blocks: Block[], from: number, to: number,
+                            normalise: (term: string) => string): Map<number, string[]> {
+	const byLine: Map<number, string[]> = new Map();
+	const addItems = (items: DefinitionListItem[], depth: number) => {
+		for (const item of items) {
+			const terms: string[] = item.terms.map(term => normalise(lineContent(term).trim()));
+			for (const definition of item.definitions) {
+				for (const line of definition.lines)
+					byLine.set(line.number, [...(byLine.get(line.number) ?? []), ...terms]);
+				addItems(groupItems(definition.lines.filter(line => line.depth > depth), depth + 1), depth + 1);
+			}
+		}
+	};
+	for (const block of blocks)
+		if (block.isDefinitionList && block.lastLine >= from && block.firstLine <= to)
+			addItems(block.items, 0);
+	return byLine;
+}
+
+/** Decorates the occurrences of defined terms in the visible part of the editor */
+class TermReferenceHighlighter implements PluginValue {
+	decorations: DecorationSet = Decoration.none;
+	private readonly REFERENCE_DEC: Decoration = Decoration.mark({class: REFERENCE_CLASS});
+	private readonly lookup: TermLookup;
+	private readonly blocksOf: BlocksOfEditor;
+	private matcher: TermMatcher | null = null;
+
+	constructor(view: EditorView, lookup: TermLookup, blocksOf: BlocksOfEditor) {
+		this.lookup = lookup;
+		this.blocksOf = blocksOf;
+		this.decorate(view);
+	}
+
+	update(update: ViewUpdate) {
+		const matcher = this.lookup.matcher(update.state.field(editorInfoField, false)?.file ?? null);
+		if (update.docChanged || update.viewportChanged || matcher !== this.matcher)
+			this.decorate(update.view);
+	}
+
+	decorate(view: EditorView) {
+		this.matcher = this.lookup.matcher(view.state.field(editorInfoField, false)?.file ?? null);
+		if (!this.matcher) {
+			this.decorations = Decoration.none;
+			return;
+		}
+		const doc = view.state.doc;
+		const newDecorations: Range<Decoration>[] = [];
+		for (const range of view.visibleRanges) {
+			const firstLine: number = doc.lineAt(range.from).number, lastLine: number = doc.lineAt(range.to).number;
+			const definedTerms: Map<number, string[]> =
+				definedTermsByLine(this.blocksOf(view) ?? [], firstLine, lastLine, term => this.lookup.normalise(term));
+			for (let lnr = firstLine; lnr <= lastLine; lnr++) {
+				const line = doc.line(lnr);
+				for (const match of findAll(this.matcher.regex, line.text)) {
+					if (match[0].length === line.text.trim().length)
+						continue;  // the line is the term itself
+					const from = line.from + match.index;
+					if (inSkippedNode(view.state, from) ||
+						definedTerms.get(lnr)?.includes(this.lookup.normalise(match[0])))
+						continue;
+					newDecorations.push(this.REFERENCE_DEC.range(from, from + match[0].length));
+				}
+			}
+		}
+		this.decorations = RangeSet.of(newDecorations, true);
+	}
+}
+
+/** The editor extensions for hover previews: the highlighter and the tooltip on what it has marked */
+export function termHoverExtensions(lookup: TermLookup, blocksOf: BlocksOfEditor): Extension[] {
+	const highlighter = ViewPlugin.define(view => new TermReferenceHighlighter(view, lookup, blocksOf),
+		{decorations: thr => thr.decorations});
+	return [
+		highlighter,
+		hoverTooltip((view: EditorView, pos: number): Tooltip | null => {
+			const matcher = lookup.matcher(view.state.field(editorInfoField, false)?.file ?? null);
+			const decorations: DecorationSet | undefined = view.plugin(highlighter)?.decorations;
+			if (!matcher || !decorations)
+				return null;
+			let tooltip: Tooltip | null = null;
+			decorations.between(pos, pos, (from, to) => {
+				const entries = lookup.entriesOf(matcher, view.state.sliceDoc(from, to));
+				if (entries.length)
+					tooltip = {
+						pos: from, end: to, above: true,
+						create: () => ({dom: createPopoverContent(entries)})
+					};
+				return false;
+			});
+			return tooltip;
+		})
+	];
+}
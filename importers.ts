@@ -0,0 +1,358 @@
+import {App, Editor, EditorPosition, FuzzySuggestModal, Notice, TFile} from 'obsidian';
+import {MARKER, MAX_TERM_LEN, isListItem} from './parser';
+
+/* Import of glossaries in other formats
+ * =====================================
+ * Each importer reads one format into GlossaryEntryTexts, and
+ * toDefinitionList() writes those in this plugin's syntax. Every definition
+ * starts with a definition marker; its further paragraphs follow after an
+ * empty line, indented by four spaces, so that they stay part of the same
+ * definition. List items are kept as they are, since they are absorbed into
+ * the definition. Terms that would be read as something else (a marker, a
+ * list item, a header) are escaped. Terms without a definition are left out:
+ * written before the next term, they would share its definitions.
+ */
+
+export interface GlossaryEntryText {
+	terms: string[],
+	/** each definition is a series of paragraphs; a paragraph may consist of several lines */
+	definitions: string[][]
+}
+export interface ImportFormat {
+	name: string,
+	/** file extensions of this format, without the dot */
+	extensions: string[],
+	/** whether a piece of text (e.g. the selection) appears to be in this format */
+	detect(text: string): boolean,
+	parse(text: string): GlossaryEntryText[]
+}
+
+/** Escapes the start of a term that would otherwise make it a marker line (also with `~`), attribute line,
+ * list item, etc. */
+export function escapeTerm(term: string): string {
+	return term.trim()
+		.replace(/^([:~{#>|*+-])/, '\\$1')
+		.replace(/^(\d+)([.)])/, '$1\\$2');
+}
+
+/** Splits text into paragraphs at blank lines */
+function paragraphs(text: string): string[] {
+	return text.split(/\n\s*\n/).map(p => p.trim()).filter(p => p.length);
+}
+
+/**
+ * Writes the entries in definition-list syntax. Returns the text, the
+ * number of terms that are too long to be recognised as terms and the
+ * number of entries that were left out because they have no definition.
+ */
+export function toDefinitionList(entries: GlossaryEntryText[]): {text: string, longTerms: number, skipped: number} {
+	const lines: string[] = [];
+	let longTerms: number = 0, skipped: number = 0;
+	for (const entry of entries) {
+		const definitions: string[][] = entry.definitions.filter(definition => definition.some(p => p.trim().length));
+		if (!definitions.length) {
+			skipped++;
+			continue;
+		}
+		for (const term of entry.terms) {
+			const escaped = escapeTerm(term.replace(/\s*\n\s*/g, ' '));
+			if (escaped.length > MAX_TERM_LEN)
+				longTerms++;
+			lines.push(escaped);
+		}
+		for (const definition of definitions)
+			definition.filter(p => p.trim().length).forEach((paragraph, p) => {
+				// the first paragraph starts with the marker, the others are indented after an empty line
+				const indent: string = p ? '    ' : '';
+				if (p)
+					lines.push('');
+				// list items stay on their own lines; other lines are joined into one
+				let text: string[] = [];
+				const flush = () => {
+					if (text.length)
+						lines.push((p ? indent : MARKER) + text.join(' '));
+					text = [];
+				};
+				for (const line of paragraph.split('\n').map(l => l.trimEnd()).filter(l => l.trim().length)) {
+					if (isListItem(line)) {
+						flush();
+						lines.push(indent + line);
+					}
+					else
+						text.push(line.trim());
+				}
+				flush();
+			});
+	}
+	return {text: lines.join('\n'), longTerms, skipped};
+}
+
+/* The formats */
+/** Splits a table row into cells at the pipes that aren't escaped */
+function tableCells(row: string): string[] {
+	return row.trim().replace(/^\|/, '').replace(/(?<!\\)\|$/, '')
+		.split(/(?<!\\)\|/).map(cell => cell.trim().replace(/\\\|/g, '|'));
+}
+
+/** Reads comma- or tab-separated values, with quoted fields that may contain newlines */
+export function parseDelimited(text: string, delimiter: string): string[][] {
+	const rows: string[][] = [];
+	let row: string[] = [], field: string = '', quoted: boolean = false;
+	for (let i = 0; i < text.length; i++) {
+		const c = text[i];
+		if (quoted) {
+			if (c === '"' && text[i + 1] === '"') {
+				field += '"';
+				i++;
+			}
+			else if (c === '"')
+				quoted = false;
+			else
+				field += c;
+		}
+		else if (c === '"' && !field.length)
+			quoted = true;
+		else if (c === delimiter) {
+			row.push(field);
+			field = '';
+		}
+		else if (c === '\n' || c === '\r') {
+			if (c === '\r' && text[i + 1] === '\n')
+				i++;
+			row.push(field);
+			rows.push(row);
+			row = [];
+			field = '';
+		}
+		else
+			field += c;
+	}
+	if (field.length || row.length) {
+		row.push(field);
+		rows.push(row);
+	}
+	return rows.filter(r => r.some(cell => cell.trim().length));
+}
+
+/* Whether the text looks like values separated by the delimiter: several rows with the same number of fields */
+function isDelimited(text: string, delimiter: string): boolean {
+	const rows: string[][] = parseDelimited(text, delimiter);
+	return rows.length >= 2 && rows[0].length >= 2 && rows.every(row => row.length === rows[0].length);
+}
+
+const HEADER_REGEX: RegExp = /^(terms?|words?|names?|keys?|concepts?|headwords?)$/i;
+
+/** Rows of cells as entries: the first cell is the term, every other cell a definition */
+function rowsToEntries(rows: string[][]): GlossaryEntryText[] {
+	if (rows.length && HEADER_REGEX.test(rows[0][0]?.trim() ?? ''))
+		rows = rows.slice(1);
+	return rows.filter(row => row[0]?.trim().length).map(([term, ...definitions]) => ({
+		terms: [term.trim()],
+		definitions: definitions.filter(d => d.trim().length).map(paragraphs)
+	}));
+}
+
+const markdownTable: ImportFormat = {
+	name: 'Markdown table',
+	extensions: ['md'],
+	detect: text => /^\s*\|.*\|/.test(text) && /^\s*\|?\s*:?-{3,}/m.test(text),
+	parse: text => {
+		const rows: string[][] = text.split('\n')
+			.filter(line => line.trim().startsWith('|'))
+			.map(tableCells);
+		// the header is the row before the |---|---| separator
+		const separator: number = rows.findIndex(row => row.every(cell => /^:?-+:?$/.test(cell)));
+		const body = separator >= 0 ? rows.slice(separator + 1) : rows;
+		// a <br> in a cell separates paragraphs
+		return rowsToEntries(body.map(row => row.map(cell => cell.replace(/<br\s*\/?>/gi, '\n\n'))));
+	}
+};
+const csv: ImportFormat = {
+	name: 'CSV',
+	extensions: ['csv'],
+	detect: text => isDelimited(text, ','),
+	parse: text => rowsToEntries(parseDelimited(text, ','))
+};
+const tsv: ImportFormat = {
+	name: 'TSV',
+	extensions: ['tsv', 'tab'],
+	detect: text => isDelimited(text, '\t'),
+	parse: text => rowsToEntries(parseDelimited(text, '\t'))
+};
+const asciidoc: ImportFormat = {
+	name: 'AsciiDoc labeled list',
+	extensions: ['adoc', 'asciidoc'],
+	detect: text => /^\S.*?:{2,4}(\s|$)/m.test(text),
+	parse: text => {
+		const entries: GlossaryEntryText[] = [];
+		let entry: GlossaryEntryText | null = null;
+		let paragraph: string[] = [];
+		const endParagraph = () => {
+			if (entry && paragraph.length) {
+				if (!entry.definitions.length)
+					entry.definitions.push([]);
+				entry.definitions[0].push(paragraph.join('\n'));
+			}
+			paragraph = [];
+		};
+		for (const line of text.split('\n')) {
+			const labeled = line.match(/^(\S.*?):{2,4}(?:\s+(.*))?$/);
+			if (labeled) {
+				endParagraph();
+				if (!entry || entry.definitions.length) {
+					entry = {terms: [], definitions: []};
+					entries.push(entry);
+				}
+				entry.terms.push(labeled[1]);
+				if (labeled[2]?.trim())
+					paragraph.push(labeled[2].trim());
+			}
+			else if (line.trim() === '+' || !line.trim())
+				endParagraph();  // a list continuation, or the end of the text
+			else
+				paragraph.push(line.replace(/^\s*([*.]+)\s/,
+					(_m, bullet: string) => '    '.repeat(bullet.length - 1) + (bullet[0] === '.' ? '1. ' : '* ')));
+		}
+		endParagraph();
+		return entries;
+	}
+};
+
+/** Markdown for the inline content of an HTML element */
+function inlineMarkdown(node: Node): string {
+	if (node.nodeType === Node.TEXT_NODE)
+		return node.textContent.replace(/\s+/g, ' ');
+	if (!(node instanceof HTMLElement))
+		return '';
+	const inner: string = Array.from(node.childNodes).map(inlineMarkdown).join('');
+	switch (node.tagName) {
+		case 'STRONG': case 'B': return `**${inner}**`;
+		case 'EM': case 'I': return `*${inner}*`;
+		case 'CODE': return `\`${inner}\``;
+		case 'A': return `[${inner}](${node.getAttribute('href') ?? ''})`;
+		case 'BR': return '\n';
+		default: return inner;
+	}
+}
+/** The paragraphs (and list items) of a <dd> element */
+function ddParagraphs(dd: HTMLElement): string[] {
+	const result: string[] = [];
+	let inline: string = '';
+	const flush = () => {
+		if (inline.trim())
+			result.push(...paragraphs(inline));
+		inline = '';
+	};
+	for (const child of Array.from(dd.childNodes)) {
+		if (child instanceof HTMLElement && ['P', 'DIV'].includes(child.tagName)) {
+			flush();
+			result.push(...ddParagraphs(child));
+		}
+		else if (child instanceof HTMLElement && ['UL', 'OL'].includes(child.tagName)) {
+			flush();
+			result.push(Array.from(child.children).map((li, i) =>
+				(child.tagName === 'OL' ? `${i + 1}. ` : '* ') + inlineMarkdown(li).trim()).join('\n'));
+		}
+		else
+			inline += inlineMarkdown(child);
+	}
+	flush();
+	return result;
+}
+const htmlDl: ImportFormat = {
+	name: 'HTML <dl>',
+	extensions: ['html', 'htm'],
+	detect: text => /<dl[\s>]/i.test(text),
+	parse: text => {
+		const doc: Document = new DOMParser().parseFromString(text, 'text/html');
+		const entries: GlossaryEntryText[] = [];
+		doc.querySelectorAll('dl').forEach(dl => {
+			let entry: GlossaryEntryText | null = null;
+			for (const child of Array.from(dl.querySelectorAll(':scope > dt, :scope > dd, :scope > div > dt, :scope > div > dd'))) {
+				if (child.tagName === 'DT') {
+					if (!entry || entry.definitions.length) {
+						entry = {terms: [], definitions: []};
+						entries.push(entry);
+					}
+					entry.terms.push(inlineMarkdown(child).trim());
+				}
+				else if (entry)
+					entry.definitions.push(ddParagraphs(child as HTMLElement));
+			}
+		});
+		return entries;
+	}
+};
+
+/** In order of precedence when detecting the format of a selection */
+export const IMPORT_FORMATS: ImportFormat[] = [htmlDl, markdownTable, tsv, asciidoc, csv];
+
+function insertEntries(editor: Editor, entries: GlossaryEntryText[], replaceSelection: boolean): void {
+	if (!entries.length) {
+		new Notice('No terms found');
+		return;
+	}
+	const {text, longTerms, skipped} = toDefinitionList(entries);
+	if (skipped === entries.length) {
+		new Notice('No terms with a definition found');
+		return;
+	}
+	if (replaceSelection)
+		editor.replaceSelection(text);
+	else {
+		// on a line of its own, with empty lines around it so that it's a block of its own
+		const cursor: EditorPosition = editor.getCursor();
+		const at: number = cursor.ch ? cursor.line + 1 : cursor.line;
+		const before: boolean = at > 0 && editor.getLine(at - 1).trim().length > 0;
+		const after: boolean = at <= editor.lastLine() && editor.getLine(at).trim().length > 0;
+		if (at > editor.lastLine())
+			editor.replaceRange('\n' + (before ? '\n' : '') + text + '\n',
+				{line: editor.lastLine(), ch: editor.getLine(editor.lastLine()).length});
+		else
+			editor.replaceRange((before ? '\n' : '') + text + '\n' + (after ? '\n' : ''), {line: at, ch: 0});
+	}
+	new Notice(`${entries.length - skipped} item(s) converted to a definition list` + (longTerms ?
+		`; ${longTerms} term(s) are longer than ${MAX_TERM_LEN} characters and won't be shown as terms` : '') +
+		(skipped ? `; ${skipped} item(s) without a definition were left out` : ''));
+}
+
+/** Converts the selected table, CSV/TSV, AsciiDoc or HTML text into a definition list */
+export function convertSelection(editor: Editor): void {
+	const selection: string = editor.getSelection();
+	const format = IMPORT_FORMATS.find(f => f.detect(selection));
+	if (!format) {
+		new Notice('The selection is not a table, CSV/TSV, AsciiDoc labeled list or HTML <dl>');
+		return;
+	}
+	insertEntries(editor, format.parse(selection), true);
+}
+
+/** Lets the user choose a file in one of the import formats, and inserts it at the cursor */
+export class ImportFileModal extends FuzzySuggestModal<TFile> {
+	private readonly editor: Editor;
+
+	constructor(app: App, editor: Editor) {
+		super(app);
+		this.editor = editor;
+		this.setPlaceholder('Import glossary from CSV, TSV, AsciiDoc or HTML file...');
+	}
+	getItems(): TFile[] {
+		const extensions: string[] = IMPORT_FORMATS.filter(f => f !== markdownTable)
+			.reduce((all, f) => all.concat(f.extensions), [] as string[]);
+		return this.app.vault.getFiles().filter(file => extensions.includes(file.extension.toLowerCase()));
+	}
+	getItemText(file: TFile): string {
+		return file.path;
+	}
+	onChooseItem(file: TFile): void {
+		const format: ImportFormat | undefined =
+			IMPORT_FORMATS.find(f => f.extensions.includes(file.extension.toLowerCase()));
+		if (!format) {
+			new Notice(`${file.name} is not a CSV, TSV, AsciiDoc or HTML file`);
+			return;
+		}
+		this.app.vault.read(file)
+			.then(text => insertEntries(this.editor, format.parse(text), false))
+			.catch(e => new Notice(`Could not import ${file.name}: ${(e as Error).message}`));
+	}
+}
@@ -0,0 +1,113 @@
+import {App, FrontMatterCache, MarkdownPostProcessorContext, MarkdownView} from 'obsidian';
+
+/* Layouts and styles of definition lists per note
+ * ================================================
+ * Besides the standard layout (term above, indented definition below),
+ * a definition list can be shown as a two-column grid, inline as
+ * "term — definition", or as a bordered table. The layout is a class
+ * 'dl-layout-...' on the container of the note, which styles.css uses
+ * in Reading View and Live Preview; when exporting to PDF, the class
+ * goes on the root element of the rendered note.
+ * The layout is chosen in the settings, and a note can override it with
+ * the frontmatter key `deflist-layout` or one of the classes in `cssclasses`.
+ * A note can also override the term color and font and the indentation
+ * with the frontmatter key `deflist`, e.g. `deflist: {dtcolor: red, layout: grid}`.
+ * Those become CSS variables on the same element as the layout class, so
+ * they apply to that note only.
+ */
+
+export type Layout = 'stacked' | 'grid' | 'inline' | 'table';
+export const LAYOUTS: Record<Layout, string> = {
+	stacked: 'Term above, definition below',
+	grid: 'Side by side (grid)',
+	inline: 'Inline: term — definition',
+	table: 'Table with borders'
+};
+export interface LayoutSettings {
+	layout: Layout;
+}
+/** The settings that a note can override in its frontmatter under `deflist` */
+interface NoteStyle {
+	dtcolor?: string,
+	dtbold?: boolean,
+	dtitalic?: boolean,
+	ddindentation?: number,
+	layout?: Layout
+}
+
+const LAYOUT_KEY: string = 'deflist-layout';
+const STYLE_KEY: string = 'deflist';
+const CLASS_PREFIX: string = 'dl-layout-';
+
+function isLayout(value: unknown): value is Layout {
+	return typeof value === 'string' && value in LAYOUTS;
+}
+
+/** The `deflist` overrides of a note; values of the wrong type are left out */
+function noteStyleOf(frontmatter: FrontMatterCache | undefined): NoteStyle {
+	const value: unknown = frontmatter?.[STYLE_KEY];
+	if (!value || typeof value !== 'object')
+		return {};
+	const {dtcolor, dtbold, dtitalic, ddindentation, layout} = value as Record<string, unknown>;
+	return {
+		dtcolor: typeof dtcolor === 'string' ? dtcolor : undefined,
+		dtbold: typeof dtbold === 'boolean' ? dtbold : undefined,
+		dtitalic: typeof dtitalic === 'boolean' ? dtitalic : undefined,
+		ddindentation: typeof ddindentation === 'number' ? ddindentation : undefined,
+		layout: isLayout(layout) ? layout : undefined
+	};
+}
+
+/** The layout of a note with this frontmatter */
+export function layoutOf(frontmatter: FrontMatterCache | undefined, settings: LayoutSettings): Layout {
+	const value: unknown = noteStyleOf(frontmatter).layout ?? frontmatter?.[LAYOUT_KEY];
+	if (isLayout(value))
+		return value;
+	const cssclasses: unknown = frontmatter?.cssclasses;
+	const classes: string[] = Array.isArray(cssclasses) ? cssclasses.map(String) :
+		typeof cssclasses === 'string' ? cssclasses.split(/[\s,]+/) : [];
+	const layout: string | undefined = classes.find(cls => cls.startsWith(CLASS_PREFIX))?.slice(CLASS_PREFIX.length);
+	return isLayout(layout) ? layout : settings.layout;
+}
+
+/** Sets the class of the layout on the element, removing that of any other layout */
+export function setLayoutClass(el: HTMLElement, layout: Layout): void {
+	for (const other of Object.keys(LAYOUTS))
+		el.toggleClass(CLASS_PREFIX + other, other === layout);
+}
+
+/** Sets the layout class and the CSS variables of the note's overrides on the element */
+function setNoteStyle(el: HTMLElement, frontmatter: FrontMatterCache | undefined, settings: LayoutSettings): void {
+	setLayoutClass(el, layoutOf(frontmatter, settings));
+	const style: NoteStyle = noteStyleOf(frontmatter);
+	const variables: [string, string | undefined][] = [
+		['--dtcolor', style.dtcolor],
+		['--dtweight', style.dtbold === undefined ? undefined : style.dtbold ? 'bold' : 'inherit'],
+		['--dtstyle', style.dtitalic === undefined ? undefined : style.dtitalic ? 'italic' : 'inherit'],
+		['--ddindentation', style.ddindentation === undefined ? undefined : `${style.ddindentation}px`]
+	];
+	for (const [name, value] of variables) {
+		if (value === undefined)
+			el.style.removeProperty(name);
+		else
+			el.style.setProperty(name, value);
+	}
+}
+
+/** Gives the container of every open note the layout and style of that note */
+export function applyNoteStyles(app: App, settings: LayoutSettings): void {
+	app.workspace.getLeavesOfType('markdown').forEach(leaf => {
+		if (!(leaf.view instanceof MarkdownView))
+			return;
+		const frontmatter = leaf.view.file && app.metadataCache.getFileCache(leaf.view.file)?.frontmatter;
+		setNoteStyle(leaf.view.containerEl, frontmatter, settings);
+	});
+}
+
+/** A post-processor that gives a note exported to PDF its layout and style */
+export function markPdfNoteStyle(settings: LayoutSettings) {
+	return (element: HTMLElement, context: MarkdownPostProcessorContext): void => {
+		if (element.classList.contains('markdown-rendered'))  // the whole note, as in postProcessDefinitionLists
+			setNoteStyle(element, context.frontmatter, settings);
+	};
+}
@@ -0,0 +1,93 @@
+import {LineType, textLineType} from './parser';
+
+/* Line types from the syntax tree
+ * ===============================
+ * In the editor, the LineType of a line comes from the syntax tree that
+ * Obsidian's Markdown mode builds. The tree is flat: a code block is a run
+ * of nodes, not one node with children, and the name of a node is a list
+ * of CSS classes joined by underscores, e.g.
+ * `HyperMD-codeblock_HyperMD-codeblock-begin_HyperMD-codeblock-bg`, with
+ * numbers for levels (`HyperMD-header-2`). NODE_RULES says, for each
+ * Markdown construct, which classes mark its lines and what LineType they
+ * get. A node matches a rule when its name has all of the rule's classes,
+ * in any order and among any others, so that an extra or reordered class
+ * doesn't break it. Lines whose nodes match no rule - a class that
+ * Obsidian has renamed, or the "Document" node that the tree sometimes
+ * reports for a list item - are classified by their text (see textLineType).
+ * This module knows nothing of CodeMirror: it gets the names of the nodes
+ * at the start of the line, innermost first.
+ */
+
+interface NodeRule {
+	construct: string,
+	/** the classes that must all be in the name of the node */
+	classes: string[],
+	/** the LineType, or for a construct of several lines, a function that finds it from the text */
+	type: LineType | ((text: string, lnr: number) => LineType)
+}
+
+/* The first and last line of frontmatter have three dashes; the last may have dots instead */
+function frontmatterType(text: string, lnr: number): LineType {
+	if (lnr === 1)
+		return 'blockStart';
+	return /^(---|\.\.\.)\s*$/.test(text) ? 'blockEnd' : 'block';
+}
+
+/* A comment starts at its first %% (or <!--) and ends at the next one, possibly on the same line.
+ * A closing %% on a line of its own looks like an opening one; parseLines() ends the open block with it */
+function commentType(text: string): LineType {
+	const trimmed: string = text.trim();
+	const opens: boolean = trimmed.startsWith('%%') || trimmed.startsWith('<!--');
+	const closes: boolean = trimmed.startsWith('<!--') ? trimmed.includes('-->') :
+		trimmed.startsWith('%%') ? trimmed.length >= 4 && trimmed.endsWith('%%') :
+		trimmed.endsWith('%%') || trimmed.includes('-->');
+	return opens ? (closes ? 'contiguousBlock' : 'blockStart') : (closes ? 'blockEnd' : 'block');
+}
+
+/** The rules, in order of precedence: the first and last lines of a block before its content */
+export const NODE_RULES: NodeRule[] = [
+	{construct: 'fenced code, first line', classes: ['HyperMD-codeblock-begin'], type: 'blockStart'},
+	{construct: 'fenced code, last line', classes: ['HyperMD-codeblock-end'], type: 'blockEnd'},
+	{construct: 'fenced code', classes: ['HyperMD-codeblock'], type: 'block'},
+	{construct: 'fenced code', classes: ['hmd-codeblock'], type: 'block'},
+	{construct: 'formula block, first line', classes: ['formatting-math-begin', 'math-block'], type: 'blockStart'},
+	{construct: 'formula block, last line', classes: ['formatting-math-end', 'math-'], type: 'blockEnd'},
+	{construct: 'formula block', classes: ['math', 'variable-'], type: 'block'},
+	{construct: 'frontmatter', classes: ['hmd-frontmatter'], type: frontmatterType},
+	{construct: 'frontmatter', classes: ['HyperMD-frontmatter'], type: frontmatterType},
+	{construct: 'comment', classes: ['comment'], type: commentType},
+	{construct: 'header', classes: ['HyperMD-header'], type: 'contiguousBlock'},
+	{construct: 'block quote, callout', classes: ['HyperMD-quote'], type: 'contiguousBlock'},
+	{construct: 'callout', classes: ['HyperMD-callout'], type: 'contiguousBlock'},
+	{construct: 'table', classes: ['HyperMD-table-row'], type: 'contiguousBlock'},
+	{construct: 'horizontal line', classes: ['hr'], type: 'contiguousBlock'},
+	{construct: 'image', classes: ['formatting-image'], type: 'contiguousBlock'},
+	{construct: 'embed', classes: ['formatting-embed'], type: 'contiguousBlock'},
+	{construct: 'footnote definition', classes: ['HyperMD-footnote'], type: 'contiguousBlock'},
+	{construct: 'task', classes: ['HyperMD-task-line'], type: 'contiguousBlock'},
+	{construct: 'list item', classes: ['HyperMD-list-line'], type: 'listItem'}
+];
+
+/** The classes in the name of a syntax node, without the numbers of levels */
+export function nodeClasses(name: string): string[] {
+	return name.replace(/\d/g, '').split('_');
+}
+
+/** The rule that the node with this name matches, if any */
+export function matchingRule(name: string): NodeRule | undefined {
+	const classes: string[] = nodeClasses(name);
+	return NODE_RULES.find(rule => rule.classes.every(cls => classes.includes(cls)));
+}
+
+/**
+ * The LineType of a line from the names of the syntax nodes at its start,
+ * innermost first, and from its text if none of them matches a rule
+ */
+export function lineTypeOfNodes(names: string[], text: string, lnr: number): LineType {
+	for (const name of names) {
+		const rule: NodeRule | undefined = matchingRule(name);
+		if (rule)
+			return typeof rule.type === 'function' ? rule.type(text, lnr) : rule.type;
+	}
+	return textLineType(text);
+}
@@ -0,0 +1,88 @@
+import {App, FuzzySuggestModal, MarkdownView, Notice, TFile, WorkspaceLeaf} from 'obsidian';
+import {EditorView} from '@codemirror/view';
+import {Extension, Text} from '@codemirror/state';
+import {Diagnostic, linter, lintGutter} from '@codemirror/lint';
+import {LintIssue, lintText} from './lintrules';
+
+/* Linter for definition lists
+ * ===========================
+ * Finds the mistakes that otherwise fail silently: a marker that isn't
+ * quite a marker, a term that's too long to be a term, a definition that
+ * starts a new list after a code block, a term without a definition.
+ * lintText() (see lintrules.ts) works on the text of a note, so it can run
+ * both in the editor (as a CodeMirror linter with gutter markers and quick
+ * fixes) and on every note of the vault. Line numbers are 0-based, as in
+ * the Obsidian editor.
+ */
+
+/* The linter in the editor */
+function position(doc: Text, line: number, ch: number): number {
+	return Math.min(doc.line(line + 1).from + ch, doc.line(line + 1).to);
+}
+
+function diagnostics(view: EditorView): Diagnostic[] {
+	const doc: Text = view.state.doc;
+	return lintText(doc.toString()).filter(issue => issue.line < doc.lines).map(issue => ({
+		from: position(doc, issue.line, issue.from),
+		to: position(doc, issue.line, issue.to),
+		severity: issue.severity,
+		source: 'Definition List',
+		message: issue.message,
+		actions: issue.fix ? [{
+			name: issue.fix.label,
+			apply: (view: EditorView) => view.dispatch({changes: {
+				from: position(view.state.doc, issue.fix.line, issue.fix.from),
+				to: position(view.state.doc, issue.fix.line, issue.fix.to),
+				insert: issue.fix.insert
+			}})
+		}] : []
+	}));
+}
+
+/** The CodeMirror extensions that show the issues in the editor */
+export function lintExtensions(): Extension[] {
+	return [linter(diagnostics), lintGutter()];
+}
+
+/* The issues in the whole vault */
+interface VaultIssue {
+	file: TFile,
+	issue: LintIssue
+}
+
+class VaultIssuesModal extends FuzzySuggestModal<VaultIssue> {
+	private readonly issues: VaultIssue[];
+
+	constructor(app: App, issues: VaultIssue[]) {
+		super(app);
+		this.issues = issues;
+		this.setPlaceholder(`${issues.length} problem(s) in definition lists; choose one to go to it`);
+	}
+	getItems(): VaultIssue[] {
+		return this.issues;
+	}
+	getItemText({file, issue}: VaultIssue): string {
+		return `${file.path}:${issue.line + 1}  ${issue.message}`;
+	}
+	async onChooseItem({file, issue}: VaultIssue): Promise<void> {
+		const leaf: WorkspaceLeaf = this.app.workspace.getLeaf(false);
+		await leaf.openFile(file, {eState: {line: issue.line}});
+		if (leaf.view instanceof MarkdownView)
+			leaf.view.editor.setCursor({line: issue.line, ch: issue.from});
+	}
+}
+
+/** Lints every note of the vault and lists the issues */
+export async function listVaultIssues(app: App): Promise<void> {
+	const issues: VaultIssue[] = [];
+	for (const file of app.vault.getMarkdownFiles()) {
+		const text: string = await app.vault.cachedRead(file);
+		if (text.includes(':'))
+			issues.push(...lintText(text).map(issue => ({file, issue})));
+	}
+	if (!issues.length) {
+		new Notice('No problems found in definition lists');
+		return;
+	}
+	new VaultIssuesModal(app, issues).open();
+}
@@ -0,0 +1,114 @@
+import {
+	MARKER, MAX_TERM_LEN, Block, DefinitionListLine, hasMarker, isIndented, markerLength, parseMarkdown
+} from './parser';
+
+/* The rules of the linter
+ * =======================
+ * lintText() finds the mistakes in the definition lists of a note's text,
+ * with the same parser as the rest of the plugin and nothing from Obsidian,
+ * so it runs in the editor, on every note of the vault and under plain
+ * Node. Line numbers are 0-based, as in the Obsidian editor.
+ */
+
+export interface LintFix {
+	label: string,
+	line: number,
+	from: number,
+	to: number,
+	insert: string
+}
+export interface LintIssue {
+	line: number,
+	/** the characters of the line that the issue is about */
+	from: number,
+	to: number,
+	severity: 'warning' | 'info',
+	message: string,
+	fix?: LintFix
+}
+
+/* A colon with whitespace after it that isn't an accepted marker; only a mistake below a term */
+const NEAR_MARKER_REGEX: RegExp = /^ {0,3}:[ \t]+(?=\S)/;
+
+function describeWhitespace(whitespace: string): string {
+	if (whitespace.includes('\t'))
+		return 'a tab';
+	return whitespace.length === 1 ? 'one space' : `${whitespace.length} spaces`;
+}
+
+/* Whether the line comes after a line that could be a term, with only
+ * empty lines and (near) markers in between, as the definitions of a term */
+function followsTerm(lines: DefinitionListLine[], index: number): boolean {
+	for (let i = index - 1; i >= 0; i--) {
+		const text: string = lines[i].text;
+		if (!text.trim() || hasMarker(text) || NEAR_MARKER_REGEX.test(text))
+			continue;
+		return lines[i].type !== 'listItem' && !isIndented(text) && text.trim().length <= MAX_TERM_LEN;
+	}
+	return false;
+}
+
+/** The problems in the definition lists of the text */
+export function lintText(text: string): LintIssue[] {
+	const issues: LintIssue[] = [];
+	const blocks: Block[] = parseMarkdown(text, 0);
+	blocks.forEach((block, b) => {
+		if (block.special)
+			return;
+		// the lines with a marker that isn't one, which aren't terms without a definition either
+		const wrongMarkers: Set<number> = new Set();
+		block.lines.forEach((line, i) => {
+			// markers with the wrong whitespace; a line with only a marker, as in `:    `, is fine
+			const nearMarker = line.type === 'listItem' || hasMarker(line.text) || !followsTerm(block.lines, i) ? null :
+				line.text.match(NEAR_MARKER_REGEX);
+			if (nearMarker)
+				wrongMarkers.add(line.number);
+			const length: number = line.role === 'definition' ? markerLength(line.text) : 0;
+			const extra = length && line.text.slice(length).trim() ? line.text.slice(length).match(/^[ \t]+/) : null;
+			if (nearMarker || (extra && !line.depth)) {
+				const end: number = nearMarker ? nearMarker[0].length : length + extra[0].length;
+				issues.push({
+					line: line.number, from: 0, to: end, severity: 'warning',
+					message: `This marker has ${describeWhitespace(line.text.slice(0, end).replace(/^ *[:~]/, ''))} ` +
+						'after the colon instead of three spaces' + (nearMarker ? ', so it is not a definition marker' : ''),
+					fix: {label: 'Use a colon and three spaces', line: line.number, from: 0, to: end, insert: MARKER}
+				});
+			}
+		});
+		if (!block.isDefinitionList)
+			return;
+
+		const contentLines: DefinitionListLine[] = block.lines.filter(line => line.role !== 'empty');
+		// a definition right after a code block starts a list of its own
+		const previous: Block | undefined = blocks[b - 1];
+		if (contentLines[0]?.role === 'definition' && previous?.special && /^\s*(```|~~~)/.test(previous.lines[0]?.text ?? ''))
+			issues.push({
+				line: contentLines[0].number, from: 0, to: contentLines[0].markerLength, severity: 'info',
+				message: 'This definition comes after a code block, so it starts a new definition list without a term',
+				fix: {label: 'Remove the marker', line: contentLines[0].number, from: 0,
+					to: contentLines[0].markerLength, insert: ''}
+			});
+		// a line that was meant as a term, but is too long for one
+		contentLines.forEach((line, i) => {
+			if (line.role === 'continuation' && !isIndented(line.text) && contentLines[i + 1]?.role === 'definition')
+				issues.push({
+					line: line.number, from: 0, to: line.text.length, severity: 'warning',
+					message: `This line is longer than ${MAX_TERM_LEN} characters, so it is shown as definition text, not as a term`
+				});
+		});
+		// terms at the end of the list, without a definition; a wrong marker is reported as such
+		for (const item of block.items.filter(item => !item.definitions.length)) {
+			if (item.terms.some(term => wrongMarkers.has(term.number)))
+				continue;
+			const last: DefinitionListLine = item.terms[item.terms.length - 1];
+			for (const term of item.terms)
+				issues.push({
+					line: term.number, from: 0, to: term.text.length, severity: 'warning',
+					message: 'This term has no definition',
+					fix: {label: 'Add a definition marker', line: last.number, from: last.text.length,
+						to: last.text.length, insert: '\n' + MARKER}
+				});
+		}
+	});
+	return issues.sort((a, b) => a.line - b.line);
+}
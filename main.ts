@@ -1,11 +1,36 @@
 import {
 	App, Plugin, MarkdownPostProcessor, PluginSettingTab, Setting,
-	ColorComponent, SliderComponent, ToggleComponent
+	ColorComponent, SliderComponent, ToggleComponent, WorkspaceLeaf, MarkdownView,
+	MarkdownRenderer, MarkdownRenderChild, MarkdownSectionInformation, TFile
 } from 'obsidian';
-import {ViewPlugin, PluginValue, ViewUpdate, EditorView, DecorationSet, Decoration} from '@codemirror/view';
-import {Line, Range, RangeSet} from "@codemirror/state";
+import {
+	ViewPlugin, PluginValue, ViewUpdate, EditorView, DecorationSet, Decoration, KeyBinding, keymap
+} from '@codemirror/view';
+import {Extension, Line, Prec, Range, RangeSet} from "@codemirror/state";
 import { syntaxTree } from "@codemirror/language";
 import {Tree} from "@lezer/common";
+import {
+	MARKER, LineType, SourceLine, LineSource, LineChange, Block, MarkerOptions, DefinitionListLine, ListAttributes,
+	updateBlocks, blockIndexAt, configureMarkers, containsMarker, markerLength,
+	parseMarkdown, lineContent, nestingIndent, stripIndent, termSlug
+} from './parser';
+import {GlossaryIndex, GlossaryView, VIEW_TYPE_GLOSSARY} from './glossary';
+import {ImportFileModal, convertSelection} from './importers';
+import {toggleMarker, convertPairs, sortList, mergeWithNext, splitList, exportDefinitionLists} from './commands';
+import {HoverScope, TermHoverSettings, TermLookup, markTermReferences, termHoverExtensions} from './hover';
+import {registerTermLinks} from './anchors';
+import {lintExtensions, listVaultIssues} from './lint';
+import {LAYOUTS, Layout, LayoutSettings, applyNoteStyles, markPdfNoteStyle, setLayoutClass} from './layout';
+import {BlocksOfEditor, TermsView, VIEW_TYPE_TERMS, blockEvents} from './outline';
+import {FlashcardSettings, exportFlashcards} from './flashcards';
+import {QUERY_LANGUAGE, glossaryQueryProcessor} from './query';
+import {termEmbedExtension, termEmbedProcessor} from './embeds';
+import {lineTypeOfNodes} from './linetypes';
+import {DefinitionListApi} from './api';
+import {FoldSettings, registerDefinitionFolds} from './folding';
+import {DuplicateFinder, duplicateExtensions, listDuplicates} from './duplicates';
+import {DuplicateSettings} from './sameterms';
+import {fillDefinitionList} from './rendering';
 
 /* Definition List plugin for Obsidian
  * ===================================
@@ -23,64 +48,130 @@ import {Tree} from "@lezer/common";
  *     first rendering, edits, scrolling; it tells the editor
  *     CodeMirror to add 'decorations' (classes  and spans) to
  *     the DOM so it takes on the correct appearance.
+ *  2b. the keymap definitionListKeymap for Enter, Tab and Shift-Tab
+ *     in definition lists, which uses the blocks of 2a.
  *  3. the function postProcessDefinitionLists, which adheres to the
  *     MarkdownPostProcessor interface. When a document enters
  *     Reading View, this function is called on every paragraph
  *     changed since the last time in Reading View. It's called
  *     once when the document is saved as a PDF.
+ *  3a. the continuationPostProcessor, for the parts of a definition
+ *     list that come after an empty line.
  *  4. the class DefinitionListSettingTab, that is instantiated
  *     once, when the plugin loads. It sets up the settings page
  *     and saves changed settings.
+ *  5. the GlossaryIndex of all terms in the vault and the sidebar
+ *     GlossaryView that shows them (see glossary.ts).
+ *  6. the hover previews of terms wherever they're used, both
+ *     in Reading View and in Live Preview (see hover.ts).
+ *  7. the commands that export definition lists to other formats
+ *     (see exporters.ts), and that import glossaries in other
+ *     formats as definition lists (see importers.ts).
+ *  8. the editing commands, e.g. to toggle markers and sort a
+ *     list (see commands.ts). Users can assign hotkeys to them.
+ *  9. the layouts (grid, inline, table), chosen in the settings
+ *     or per note, and the per-note style overrides (see layout.ts).
+ * 10. the links to terms, as in [[Note#term]] (see anchors.ts).
+ * 11. the linter that points out mistakes in definition lists,
+ *     in the editor and in the whole vault (see lint.ts).
+ * 12. the sidebar TermsView with the terms of the active note, which
+ *     takes its blocks from 2a while editing (see outline.ts).
+ * 13. the export of terms and definitions as Anki flashcards
+ *     (see flashcards.ts).
+ * 14. the `deflist` code blocks with a query, which show a definition
+ *     list of the matching terms of the vault (see query.ts).
+ * 15. the embedded terms, `define:term`, in Reading View, PDF and
+ *     Live Preview (see embeds.ts).
+ * 16. the public API for other plugins, `plugin.api` (see api.ts).
+ * 17. the folding of definitions, in the editor with the blocks of 2a
+ *     and in Reading View (see folding.ts).
+ * 18. the report of terms that are defined more than once, and their
+ *     warnings in the editor (see duplicates.ts).
+ * Items 2 and 3 both apply the rules of doc/Specifications.md through
+ * the parser in parser.ts, which knows nothing of Obsidian or CodeMirror.
+ * Item 2a gets the type of each line from the syntax tree through the
+ * explicit mapping of linetypes.ts.
  */
 
-interface blockOfLines {
-	firstLine: number,
-	special: boolean,
-	defMarkers: number[],
-	listLines: number[]
-}
-type lineType = 'blockStart' | 'blockEnd' | 'block' | 'contiguousBlock' | 'listItem' | 'normal';
-interface DefinitionListPluginSettings {
+interface DefinitionListPluginSettings
+	extends TermHoverSettings, MarkerOptions, LayoutSettings, FlashcardSettings, FoldSettings, DuplicateSettings {
 	dtcolor: string;
 	dtbold: boolean;
 	dtitalic: boolean;
 	ddindentation: number;
+	lint: boolean;
 }
 const defaultSettings: DefinitionListPluginSettings = {
 	dtcolor: '#555577',
 	dtbold: true,
 	dtitalic: false,
-	ddindentation: 30
+	ddindentation: 30,
+	layout: 'stacked',
+	lint: true,
+	flashcardIds: false,
+	folds: {},
+	duplicateWarnings: false,
+	duplicateIgnoreCase: true,
+	duplicateIgnorePunctuation: true,
+	duplicatePlurals: false,
+	hoverScope: 'vault',
+	hoverCaseSensitive: false,
+	markerTilde: false,
+	markerSpace: false,
+	markerTab: false,
+	markerIndented: false
 }
-const MARKER: string = ':   ';
-const MARKER_REGEX: RegExp = /(?:^|\n): {3}/;
-const MARKER_LEN: number = MARKER.length;
-const MAX_TERM_LEN: number = 100;
 let verbose: boolean = false;
+/* Increased whenever the accepted marker forms change, so that the
+ * DocumentDecorationEngines know they must redecorate from scratch */
+let markerVersion: number = 0;
+
+/* Measure the width of a definition marker such as ':   ' for correct indentation.
+ * It's about 18 pixels, but the value depends on the user's choice of font.
+ * It is advised to use EditorView.requestMeasure() for such things, but that
+ * fails when no document is currently open, which may well be the case at the
+ * time of loading of the plugin (i.e. usually when Obsidian starts). */
+let sizerParent: HTMLElement = document.body;
+const markerWidths: Map<string, number> = new Map();
+function measureMarker(marker: string): number {
+	if (markerWidths.has(marker))
+		return markerWidths.get(marker);
+	const sizerContainer: HTMLDivElement =
+		sizerParent.createEl('div', {cls: 'markdown-preview-view'});
+		// this class ensures the font is the one used in the editing area
+	const sizer: HTMLSpanElement = sizerContainer.createEl('span', {
+		text: marker,
+		attr: {style: "visibility: hidden; white-space: pre;"}
+	});
+	const width: number = Math.round(sizer.getBoundingClientRect()?.width || 18);
+	sizerContainer.remove();
+	if (width)
+		markerWidths.set(marker, width);
+	return width;
+}
 
 /* 1. The main class, instantiated by Obsidian when the plugin loads */
 // noinspection JSUnusedGlobalSymbols
 export default class DefinitionListPlugin extends Plugin {
 	public settings: DefinitionListPluginSettings;
 	public readonly cssElement: HTMLStyleElement = document.createElement('style');
+	public glossary: GlossaryIndex;
+	/** for other plugins, see api.ts */
+	public api: DefinitionListApi;
+	private readonly termHoverExtensions: Extension[] = [];
+	private readonly lintExtensions: Extension[] = [];
+	private readonly duplicateExtensions: Extension[] = [];
+	private termLookup: TermLookup;
+	private duplicateFinder: DuplicateFinder;
 
 	async onload() {
 		console.log(`Loading plugin ${this.manifest.name} v${this.manifest.version}`);
 		this.settings = Object.assign({}, defaultSettings, await this.loadData());
-		/* Measure the width of the definition marker ':   ' for correct indentation.
-		 * It's about 18 pixels, but the value depends on the user's choice of font.
-		 * It is advised to use EditorView.requestMeasure() for such things, but that
-		 * fails when no document is currently open, which may well be the case at the
-		 * time of loading of the plugin (i.e. usually when Obsidian starts). */
-		const sizerContainer: HTMLDivElement =
-			this.app.workspace.containerEl.createEl('div', {cls: 'markdown-preview-view'});
-			// this class ensures the font is the one used in the editing area
-		const sizer: HTMLSpanElement = sizerContainer.createEl('span', {
-			text: MARKER,
-			attr: {style: "visibility: hidden; white-space: pre;"}
-		});
-		const markerWidth: number = Math.round(sizer.getBoundingClientRect()?.width || 18);
-		sizerContainer.remove();
+		configureMarkers(this.settings);
+		/* The width of the standard marker goes into the stylesheet; markers of
+		 * other forms get their width on the line itself, see DocumentDecorationEngine */
+		sizerParent = this.app.workspace.containerEl;
+		const markerWidth: number = measureMarker(MARKER);
 		this.cssElement.textContent = `:root {
 			--dtcolor: ${this.settings.dtcolor};
 			--dtweight: ${this.settings.dtbold ? 'bold' : 'inherit'};
@@ -90,8 +181,164 @@ export default class DefinitionListPlugin extends Plugin {
 		}`;
 		document.head.appendChild(this.cssElement);
 		this.registerEditorExtension(liveUpdateDefinitionLists);
-		this.registerMarkdownPostProcessor(postProcessDefinitionLists, 99);
+		this.registerEditorExtension(definitionListKeymap);
+		this.registerMarkdownPostProcessor(postProcessDefinitionLists(this.app), 99);
+		this.registerMarkdownPostProcessor(continuationPostProcessor(this.app), 99);
 		this.addSettingTab(new DefinitionListSettingTab(this.app, this));
+
+		this.glossary = new GlossaryIndex(this);
+		this.api = new DefinitionListApi(this, this.glossary);
+		this.registerView(VIEW_TYPE_GLOSSARY, leaf => new GlossaryView(leaf, this.glossary));
+		this.addRibbonIcon('book-open', 'Open glossary', () => this.activateView(VIEW_TYPE_GLOSSARY));
+		this.addCommand({
+			id: 'open-glossary',
+			name: 'Open glossary of all terms in the vault',
+			callback: () => this.activateView(VIEW_TYPE_GLOSSARY)
+		});
+		this.registerView(VIEW_TYPE_TERMS, leaf => new TermsView(leaf, engineBlocks));
+		this.addCommand({
+			id: 'open-terms-of-note',
+			name: 'Show the terms of the current note',
+			callback: () => this.activateView(VIEW_TYPE_TERMS)
+		});
+		registerTermLinks(this, this.glossary);
+		registerDefinitionFolds(this, this.settings, () => this.saveData(this.settings), engineBlocks);
+		this.registerMarkdownCodeBlockProcessor(QUERY_LANGUAGE, glossaryQueryProcessor(this.app, this.glossary));
+		this.registerMarkdownPostProcessor(termEmbedProcessor(this.app, this.glossary));
+		this.registerEditorExtension(termEmbedExtension(this.app, this.glossary));
+
+		this.addCommand({
+			id: 'copy-definition-lists',
+			name: 'Copy definition lists (selection or note) in another format',
+			editorCallback: (editor, ctx) => exportDefinitionLists(this.app, editor, ctx.file, true)
+		});
+		this.addCommand({
+			id: 'export-definition-lists',
+			name: 'Export definition lists (selection or note) to a new file in another format',
+			editorCallback: (editor, ctx) => exportDefinitionLists(this.app, editor, ctx.file, false)
+		});
+		this.addCommand({
+			id: 'export-flashcards',
+			name: 'Export terms and definitions of a note, folder or tag as Anki flashcards',
+			callback: () => exportFlashcards(this.app, this.settings)
+		});
+
+		this.addCommand({
+			id: 'convert-selection-to-definition-list',
+			name: 'Convert selected table, CSV/TSV, AsciiDoc or HTML to a definition list',
+			editorCheckCallback: (checking, editor) => {
+				if (checking)
+					return editor.somethingSelected();
+				convertSelection(editor);
+			}
+		});
+		this.addCommand({
+			id: 'import-glossary-file',
+			name: 'Import glossary file (CSV, TSV, AsciiDoc, HTML) as a definition list',
+			editorCallback: editor => new ImportFileModal(this.app, editor).open()
+		});
+
+		this.addCommand({
+			id: 'toggle-definition-marker',
+			name: 'Toggle definition marker on the current line(s)',
+			editorCallback: editor => toggleMarker(editor)
+		});
+		this.addCommand({
+			id: 'convert-pairs-to-definition-list',
+			name: 'Convert selected "term = definition" or "term: definition" lines to a definition list',
+			editorCallback: editor => convertPairs(editor)
+		});
+		this.addCommand({
+			id: 'sort-definition-list',
+			name: 'Sort the current definition list by term',
+			editorCallback: editor => sortList(editor)
+		});
+		this.addCommand({
+			id: 'merge-definition-lists',
+			name: 'Merge the current definition list with the next one',
+			editorCallback: editor => mergeWithNext(editor)
+		});
+		this.addCommand({
+			id: 'split-definition-list',
+			name: 'Split the current definition list before the current item',
+			editorCallback: editor => splitList(editor)
+		});
+
+		this.registerMarkdownPostProcessor(markPdfNoteStyle(this.settings));
+		this.registerEvent(this.app.workspace.on('layout-change', () => this.refreshNoteStyles()));
+		this.registerEvent(this.app.workspace.on('file-open', () => this.refreshNoteStyles()));
+		this.registerEvent(this.app.metadataCache.on('changed', () => this.refreshNoteStyles()));
+		this.app.workspace.onLayoutReady(() => this.refreshNoteStyles());
+
+		this.registerEditorExtension(this.lintExtensions);
+		this.refreshLint();
+		this.addCommand({
+			id: 'list-definition-list-issues',
+			name: 'List problems in definition lists in the vault',
+			callback: () => listVaultIssues(this.app)
+		});
+
+		this.termLookup = new TermLookup(this.app, this.glossary, this.settings);
+		this.registerMarkdownPostProcessor((el, ctx) => markTermReferences(this.termLookup, el, ctx), 100);
+		this.registerEditorExtension(this.termHoverExtensions);
+		this.refreshTermHover();
+
+		this.duplicateFinder = new DuplicateFinder(this.glossary, this.settings);
+		this.registerEditorExtension(this.duplicateExtensions);
+		this.refreshDuplicates();
+		this.addCommand({
+			id: 'list-duplicate-terms',
+			name: 'List terms that are defined more than once in the vault',
+			callback: () => listDuplicates(this.app, this.duplicateFinder, this.glossary)
+		});
+	}
+	/* Switch the editor's hover previews on or off, e.g. after a change of settings */
+	public refreshTermHover() {
+		this.termHoverExtensions.splice(0);
+		if (this.settings.hoverScope !== 'off')
+			this.termHoverExtensions.push(...termHoverExtensions(this.termLookup, engineBlocks));
+		this.app.workspace.updateOptions();
+	}
+	/* Switch the linter in the editor on or off */
+	public refreshLint() {
+		this.lintExtensions.splice(0);
+		if (this.settings.lint)
+			this.lintExtensions.push(...lintExtensions());
+		this.app.workspace.updateOptions();
+	}
+	/* Switch the editor's warnings on duplicate terms on or off */
+	public refreshDuplicates() {
+		this.duplicateExtensions.splice(0);
+		if (this.settings.duplicateWarnings)
+			this.duplicateExtensions.push(...duplicateExtensions(this.duplicateFinder, engineBlocks));
+		this.app.workspace.updateOptions();
+	}
+	/* Apply a change of the accepted marker forms to all open notes */
+	public refreshMarkers() {
+		configureMarkers(this.settings);
+		markerVersion++;
+		// noinspection JSIgnoredPromiseFromCall
+		this.glossary.build();
+		this.app.workspace.getLeavesOfType('markdown').forEach(leaf => {
+			if (leaf.view instanceof MarkdownView) {
+				leaf.view.previewMode.rerender(true);
+				leaf.view.editor.refresh();
+			}
+		});
+	}
+	/* Give every open note the layout of the settings, or the layout and style of its frontmatter */
+	public refreshNoteStyles() {
+		applyNoteStyles(this.app, this.settings);
+	}
+	/* Show the glossary or the terms of the note in the right sidebar, re-using the view if it's already open */
+	async activateView(type: string) {
+		const {workspace} = this.app;
+		let leaf: WorkspaceLeaf | null = workspace.getLeavesOfType(type)[0] ?? null;
+		if (!leaf) {
+			leaf = workspace.getRightLeaf(false);
+			await leaf.setViewState({type, active: true});
+		}
+		await workspace.revealLeaf(leaf);
 	}
 	/* In Obsidian's developer tools, turn debugging messages on or off with
 	 *  `app.plugins.getPlugin('definition-list').toggleDebugging()` */
@@ -127,31 +374,28 @@ class DocumentDecorationEngine implements PluginValue {
 	private readonly DEF_CLASS: string = 'view-dd';
 	private readonly DD_LIST_CLASS: string = 'view-dd-li';
 	private readonly MARKER_CLASS: string = 'view-dd-marker';
-	private readonly TERM_DEC: Decoration = Decoration.line({class: this.TERM_CLASS});
-	private readonly DEF_DEC: Decoration = Decoration.line({class: this.DEF_CLASS});
-	private readonly DD_LIST_DEC: Decoration = Decoration.line({class: this.DD_LIST_CLASS});
-	private readonly MARKER_DEC: Decoration = Decoration.mark({class: this.MARKER_CLASS});
-	private readonly BLOCK_START_TYPES: string[] = [
-		'HyperMD-codeblock_HyperMD-codeblock-begin_HyperMD-codeblock-begin-bg_HyperMD-codeblock-bg',
-		'formatting_formatting-math_formatting-math-begin_keyword_math_math-block'
-	];
-	private readonly BLOCK_INNER_TYPES: string[] = [
-		'hmd-codeblock_variable', 'hmd-codeblock_keyword', 'math_variable-'
-	];
-	private readonly BLOCK_END_TYPES: string[] = [
-		'HyperMD-codeblock_HyperMD-codeblock-bg_HyperMD-codeblock-end_HyperMD-codeblock-end-bg',
-		'formatting_formatting-math_formatting-math-end_keyword_math_math-'
-	];
-	private readonly CONTIGUOUS_BLOCK_TYPES: string[] = [
-		'HyperMD-header_HyperMD-header-', 'HyperMD-quote_HyperMD-quote-',
-		'HyperMD-table-_HyperMD-table-row_HyperMD-table-row-',
-		'formatting_formatting-image_image_image-marker',
-		'HyperMD-list-line_HyperMD-list-line-_HyperMD-task-line', 'hr'
-	]; // special blocks that don't have start and end lines
-	private readonly LIST_TYPES: string[] = ['HyperMD-list-line_HyperMD-list-line-'];
+	private readonly NESTED_CLASS: string = 'view-dl-nested';
+	private readonly INDENT_DEC: Decoration = Decoration.mark({class: 'view-dl-indent'});
+	private readonly ATTRIBUTES_DEC: Decoration = Decoration.line({class: 'view-dl-attributes'});
+	/* The lines have no element around them that could be a <dl>, so
+	 * they get the ARIA roles of <dt> and <dd> for screen readers, and the
+	 * marker, which isn't part of the definition, is hidden from them */
+	private readonly TERM_DEC: Decoration = Decoration.line({class: this.TERM_CLASS, attributes: {role: 'term'}});
+	private readonly DEF_DEC: Decoration = Decoration.line({class: this.DEF_CLASS, attributes: {role: 'definition'}});
+	private readonly DD_LIST_DEC: Decoration = Decoration.line({
+		class: this.DD_LIST_CLASS, attributes: {role: 'definition'}
+	});
+	private readonly MARKER_DEC: Decoration = Decoration.mark({
+		class: this.MARKER_CLASS, attributes: {'aria-hidden': 'true'}
+	});
 	private never_updated: boolean = true;
-	private numberOfLines: number = 1;
-	private readonly lineBlocks: blockOfLines[] = [];
+	private markerVersion: number = markerVersion;
+	/* The blocks of the WHOLE document, kept up to date across edits */
+	private readonly blocks: Block[] = [];
+	/* The length of the syntax tree when the blocks were computed; the
+	 * parser may not have got to the end of a long document yet */
+	private treeLength: number = 0;
+	private treeComplete: boolean = false;
 
 	constructor(view: EditorView) {
 		this.decorations = Decoration.none;
@@ -177,6 +421,7 @@ class DocumentDecorationEngine implements PluginValue {
      * Launching Obsidian with a document open: lots and lots; viewportChanged once.
      * Switching to an open doc for the first time after restart: instantiates
      * this class => use the constructor for this
+     * Since the whole document is decorated, scrolling needs no new decorations.
      */
 	update(update: ViewUpdate) {
 		for (let u of ['selectionSet', 'docChanged', 'geometryChanged', 'focusChanged',
@@ -184,303 +429,211 @@ class DocumentDecorationEngine implements PluginValue {
 			if ((update as any)[u])
 				verbose && console.debug('[DL]', u);
 
-		if (!update.viewportChanged && !this.never_updated) {
+		// The first time Edit View is active
+		if (this.never_updated) {
+			if (update.view.contentDOM.isShown()) {
+				verbose && console.debug('[DL] first update');
+				this.decorateFromScratch(update);
+			}
 			return;
 		}
-
-		/* Big scroll => whole DecorationSet from scratch; perhaps some of it can be
-         * de-duplicated? Also runs the first time Edit View is active. */
-		if (update.viewportMoved ||
-			(this.never_updated && update.view.contentDOM.isShown())) {
-			verbose && console.debug(update.viewportChanged ? '[DL] viewportMoved' : '[DL] first update');
-			return this.decorateVisibleRangesFromScratch(update);
+		if (this.markerVersion !== markerVersion) {
+			verbose && console.debug('[DL] marker forms changed');
+			return this.decorateFromScratch(update);
 		}
 		if (update.docChanged) {
 			verbose && console.debug('[DL] docChanged');
-			// update.changes.iterChanges(console.debug, true);
 			return this.adjustDecorationsAfterEdit(update);
 		}
+		// The syntax tree has grown since the blocks were computed
+		if (!this.treeComplete && syntaxTree(update.state).length > this.treeLength) {
+			verbose && console.debug('[DL] syntax tree extended');
+			return this.decorateFromScratch(update);
+		}
 	}
 
-	decorateVisibleRangesFromScratch(update: ViewUpdate) {
+	/* A LineSource for the parser, with line types from the syntax tree */
+	lineSource(update: ViewUpdate): LineSource {
 		const docText = update.state.doc;
-		this.numberOfLines = docText.lines;
 		const tree: Tree = syntaxTree(update.state);  // to check line types
-		verbose && console.debug('[DL]', tree);
-		this.lineBlocks.splice(0);
-		let currentBlock: blockOfLines;
-		let lnr: number;
-		let inContiguousBlock: boolean = false;
-		for (let range of update.view.visibleRanges) {
-			/* multiple ranges are always in document order, but the border
-			 * between them may fall within a line. NB A range border
-			 * may fall inside special blocks (code, table, formula)! */
-			verbose && console.debug('[DL] Range:', range);
-			lnr = docText.lineAt(range.from).number;
-			if (this.lineBlocks.length)
-				currentBlock = this.lineBlocks.last();
-			else {
-				currentBlock = {firstLine: lnr, special: false, defMarkers: [], listLines: []};
-				this.lineBlocks.push(currentBlock);
+		return {
+			lines: docText.lines,
+			line: (lnr: number): SourceLine => {
+				const line: Line = docText.line(lnr);
+				const type: LineType = this.lineType(line.from, tree, line.text, lnr);
+				verbose && console.debug(`[DL] ${lnr}: ${type}`);
+				return {number: lnr, text: line.text, type};
 			}
+		};
+	}
 
-			/* 1. Find and record the locations of block boundaries
-			 * 2. Record which of the blocks are special (header etc.) and which
-			 *    have a definition marker somewhere inside. */
-			for (; lnr <= docText.lineAt(range.to).number; lnr++) {
-				const line: Line = docText.line(lnr);
-				const lineType: lineType = this.lineType(line.from, tree);
-				verbose && console.debug(`[DL] ${lnr}: ${lineType}`);
-				switch (lineType) {
-					case 'blockStart':
-						if (currentBlock.firstLine !== lnr) {
-							currentBlock = {
-								firstLine: lnr, special: true, defMarkers: [], listLines: []}
-							;
-							this.lineBlocks.push(currentBlock);
-						} else
-							currentBlock.special = true;
+	/* The blocks of the whole document, or null if it hasn't been shown in the editor yet */
+	documentBlocks(): Block[] | null {
+		return this.never_updated ? null : this.blocks;
+	}
+
+	/* The line (1-based) with its role, if it is in a definition list */
+	definitionListLine(lnr: number): DefinitionListLine | undefined {
+		const block: Block | undefined = this.blocks[blockIndexAt(this.blocks, lnr)];
+		if (!block?.isDefinitionList)
+			return undefined;
+		return block.lines.find(line => line.number === lnr);
+	}
+
+	decorateFromScratch(update: ViewUpdate) {
+		/* 1. Let the parser find the block boundaries, the definition lists
+		 *    and the role of every line inside them. */
+		const source: LineSource = this.lineSource(update);
+		this.treeLength = syntaxTree(update.state).length;
+		this.treeComplete = this.treeLength >= update.state.doc.length;
+		this.blocks.splice(0);
+		updateBlocks(this.blocks, {fromLine: 1, toLine: source.lines, delta: 0}, source);
+		verbose && console.debug('[DL]', this.blocks);
+
+		/* 2. Set the formatting of every line in each definition-list block. */
+		/* the argument for .update is of class RangeSetUpdate<Decoration>,
+		* and RangeSetUpdate is a typedef of an Object with optional
+		* property .add of class readonly Range<Decoration>; that in turn has
+		* instance properties from, to, and the Decoration.
+		* You can create a Range<Decoration> by creating a Decoration and
+		* applying its .range method (inherited from its superclass RangeValue). */
+		this.decorations = RangeSet.of(this.blockDecorations(update, this.blocks));
+		this.never_updated = false;
+		this.markerVersion = markerVersion;
+		blockEvents.trigger('changed', update.view);
+	}
+
+	/* The decorations of every line in the blocks that are definition lists */
+	blockDecorations(update: ViewUpdate, blocks: Block[]): Range<Decoration>[] {
+		const docText = update.state.doc;
+		const newDecorations: Range<Decoration>[] = [];
+		for (const block of blocks) {
+			if (!block.isDefinitionList)
+				continue;
+			for (const dlLine of block.lines) {
+				const line: Line = docText.line(dlLine.number);
+				const nested = (decoration: Decoration): Decoration =>
+					this.listDecoration(decoration, dlLine.depth, block.attributes);
+				// the `> ` of a blockquote or callout, which Obsidian styles itself
+				const start: number = line.from + dlLine.quote;
+				// the indentation that makes a line part of a nested list
+				const indent: number = nestingIndent(line.text.slice(dlLine.quote), dlLine.depth).length;
+				switch (dlLine.role) {
+					case 'definition':
+						newDecorations.push(
+							nested(this.defDecoration(line.text.slice(dlLine.quote, dlLine.markerLength)))
+								.range(line.from), // linedec anchored on start
+							this.MARKER_DEC.range(start, line.from + dlLine.markerLength)
+						);
 						break;
-					case 'blockEnd':
-						currentBlock.special = true;
-						currentBlock = {
-							firstLine: lnr + 1, special: false, defMarkers: [], listLines: []
-						};
-						this.lineBlocks.push(currentBlock);
+					case 'continuation':
+						newDecorations.push(nested(this.DEF_DEC).range(line.from));
+						indent && newDecorations.push(this.INDENT_DEC.range(start, start + indent));
 						break;
-					case 'block':
-						currentBlock.special = true;
+					case 'listItem':
+						newDecorations.push(nested(this.DD_LIST_DEC).range(line.from));
 						break;
-					case 'contiguousBlock':
-						if (!inContiguousBlock) {
-							inContiguousBlock = true;
-							if (currentBlock.firstLine !== lnr) {   // set up a new block
-								currentBlock = {
-									firstLine: lnr, special: true, defMarkers: [], listLines: []
-								};
-								this.lineBlocks.push(currentBlock);
-							}
-							else
-								currentBlock.special = true;
-						}
+					case 'term':
+						newDecorations.push(nested(this.TERM_DEC).range(line.from));
+						indent && newDecorations.push(this.INDENT_DEC.range(start, start + indent));
 						break;
-					case 'normal':
-					case 'listItem':
-						// we may still be inside a special block
-						if (inContiguousBlock || (!currentBlock.special && !line.length)) {
-							// either we're just coming out of a table, a header, etc.,
-							// or there's an empty non-special line. Start a new block
-							if (currentBlock.firstLine !== lnr) {
-								currentBlock = {
-									firstLine: lnr, special: false, defMarkers: [], listLines: []
-								};
-								this.lineBlocks.push(currentBlock);
-							}
-							inContiguousBlock = false;
-						}
-						if (line.text.startsWith(MARKER))
-							currentBlock.defMarkers.push(lnr);
-						else if (lineType === 'listItem')
-							currentBlock.listLines.push(lnr);
+					case 'attributes':
+						newDecorations.push(this.ATTRIBUTES_DEC.range(line.from));
 				}
+				// empty lines get no decoration
 			}
 		}
-		verbose && console.debug('[DL]', lnr, this.lineBlocks);
+		verbose && console.debug('[DL]', newDecorations);
+		return newDecorations;
+	}
 
-		/* 3. Go through each definition-list block and set the formatting of every line. */
-		const newDecorations: Range<Decoration>[] = [];
-		for (let i = 0; i < this.lineBlocks.length; i++) {
-			if (this.lineBlocks[i].special || !this.lineBlocks[i].defMarkers.length)
-				continue;  // not a definition list
-			let startline: number = this.lineBlocks[i].firstLine;
-			let endline: number = (i == this.lineBlocks.length - 1) ? lnr :
-				this.lineBlocks[i+1].firstLine;
-			for (let n = startline; n < endline; n++) {
-				const line: Line = docText.line(n);
-				if (line.text.startsWith(MARKER))
-					newDecorations.push(
-						this.DEF_DEC.range(line.from), // linedec anchored on start
-						this.MARKER_DEC.range(line.from, line.from + MARKER_LEN)
-					)
-				else if (this.lineBlocks[i].listLines.includes(n))
-					newDecorations.push(this.DD_LIST_DEC.range(line.from));
-				else if (line.length > 0 && line.length <= MAX_TERM_LEN)
-					newDecorations.push(this.TERM_DEC.range(line.from));
-				// empty lines and very long lines get no decoration
-			}
+	/* The standard marker ':   ' has its width in the stylesheet; for other
+	 * forms, the line gets the width of its own marker so its text is aligned */
+	defDecoration(marker: string): Decoration {
+		if (marker === MARKER)
+			return this.DEF_DEC;
+		return Decoration.line({
+			class: this.DEF_CLASS,
+			attributes: {role: 'definition', style: `--ddmarkerindent: -${measureMarker(marker)}px`}
+		});
+	}
+
+	/* Lines of a nested definition list get the classes of their depth on
+	 * top of those of their role, e.g. 'view-dd view-dl-nested view-dl-depth-2',
+	 * and the depth as a CSS variable for their indentation. Lines of a list
+	 * with an attribute line get the classes of the list, and its id as data */
+	listDecoration(decoration: Decoration, depth: number, attributes: ListAttributes | null): Decoration {
+		if (!depth && !attributes)
+			return decoration;
+		const classes: string[] = [decoration.spec.class];
+		const lineAttributes: Record<string, string> = {...decoration.spec.attributes};
+		if (depth) {
+			classes.push(this.NESTED_CLASS, `view-dl-depth-${depth}`);
+			lineAttributes.style = (lineAttributes.style ? lineAttributes.style + '; ' : '') + `--dldepth: ${depth}`;
 		}
-		verbose && console.debug('[DL]', newDecorations);
-		/* the argument for .update is of class RangeSetUpdate<Decoration>,
-		* and RangeSetUpdate is a typedef of an Object with optional
-		* property .add of class readonly Range<Decoration>; that in turn has
-		* instance properties from, to, and the Decoration.
-		* You can create a Range<Decoration> by creating a Decoration and
-		* applying its .range method (inherited from its superclass RangeValue). */
-		this.decorations = RangeSet.of(newDecorations);
-		this.never_updated = false;
+		if (attributes) {
+			classes.push(...attributes.classes);
+			if (attributes.id)
+				lineAttributes['data-dl-id'] = attributes.id;
+		}
+		return Decoration.line({class: classes.join(' '), attributes: lineAttributes});
 	}
 
 	/* docChanged is usually simple: the .map method updates all offsets
-     * beyond the insertion or deletion. But it gets complicated when the
-     * edit changes the type and extent of blocks of the document. */
+     * beyond the insertion or deletion. But the edit may also change the
+     * type and extent of blocks of the document: then the parser updates
+     * the blocks around the edit, and only those get new decorations. */
 	adjustDecorationsAfterEdit(update: ViewUpdate) {
 		// Shift {from, to} of existing decorations in accordance with edit
 		// This must be done first to ensure correct decoration changes
 		this.decorations = this.decorations.map(update.changes);
-		/* Do a full re-parsing if the edit CHANGED THE BLOCK STRUCTURE
-         * of the document because it
-         * A. changed the total number of lines (TODO: be more subtle about
-         *    this: check whether the current block is still intact
-         *    and update blockOfLines.firstLine values after this line)
-         * B. emptied a line, or inserted text on an empty line (TODO: same)
-         * C. turned a normal block into a special block, or the reverse (TODO: same)
-         * D. turned a normal block into a definition list, or the reverse (TODO: same)
-         * TODO: long-term, incrementally move scenarios out of the 'full
-         *   redecoration' column into the 'deal with it locally' column */
-		// A. Changed total number of lines:
-		if (update.state.doc.lines !== this.numberOfLines)
-			return this.decorateVisibleRangesFromScratch(update);
-		// Gather all requests for a complete update, to do it just once
-		let fullRedecorationRequired: boolean = false;
-		update.changes.iterChangedRanges((f0, _t0, f1, t1) => {
-			if (fullRedecorationRequired)
-				return;  // no need to investigate anything: we've already decided
-			const line: Line = update.state.doc.lineAt(f1);
-			if (line.from + MARKER_LEN <= Math.min(f0, f1))
-				return;  // the edit took place outside the marker area
-
-			// B. Line emptied, or empty line filled:
-			// The whole line == the edited part after the edit
-			if (line.length === t1 - f1)  {
-				fullRedecorationRequired = true;
-				return;
-			}
-			// retrieve the information about the block in which the edit occurred
-			let i = this.lineBlocks.length - 1;
-			for (; i >= 0; i--)
-				if (this.lineBlocks[i].firstLine <= line.number)
-					break;
-			const currentBlock: blockOfLines = this.lineBlocks[i];
-
-			// C. Turned normal block into special block, or the reverse:
-			// Do we really want to go into the tree to check this? TBD
-			if (currentBlock.special === !line.text.match(/^(\$\$|```|> )/)) {
-				fullRedecorationRequired = true;
-				return;
-			}
 
-			// D. Turned normal block into definition list, or the reverse.
-			// We combine this with decoration-updating after a single marker change
-			if (!currentBlock.special &&
-				currentBlock.defMarkers.includes(line.number) !== line.text.startsWith(MARKER)) {
-				// If this concerns the ONLY marker, do a full redecoration.
-				// Either a marker was added; insert it in the list...
-				if (line.text.startsWith(MARKER)) {
-					currentBlock.defMarkers.push(line.number);
-					if (currentBlock.defMarkers.length === 1) {
-						fullRedecorationRequired = true;
-						return;
-					}
-					this.decorations = this.decorations.update({
-						add: [
-							this.DEF_DEC.range(line.from),
-							this.MARKER_DEC.range(line.from, line.from + MARKER_LEN)
-						],
-						/* remove the Term decoration from this line */
-						filter: (_f, _t, d) =>
-							(this.TERM_CLASS !== d.spec.class),
-						filterFrom: line.from,
-						filterTo: line.to
-					})
-				}
-				// ...or a marker was removed; delete its reference from the list
-				else {
-					currentBlock.defMarkers.remove(line.number);
-					if (!currentBlock.defMarkers.length) {
-						fullRedecorationRequired = true;
-						return;
-					}
-					this.decorations = this.decorations.update({
-						filter: (_f, _t, d) =>
-							![this.MARKER_CLASS, this.DEF_CLASS].includes(d.spec.class),
-						filterFrom: line.from,
-						filterTo: line.to,
-						add: [this.TERM_DEC.range(line.from)]
-					});
-				}
-			}
+		// The lines touched by the edit(s), before and after
+		let fromA: number = update.startState.doc.length, toA: number = 0;
+		update.changes.iterChangedRanges((f0, t0) => {
+			fromA = Math.min(fromA, f0);
+			toA = Math.max(toA, t0);
+		});
+		const change: LineChange = {
+			fromLine: update.startState.doc.lineAt(fromA).number,
+			toLine: update.startState.doc.lineAt(toA).number,
+			delta: update.state.doc.lines - update.startState.doc.lines
+		};
+		const reparsed = updateBlocks(this.blocks, change, this.lineSource(update));
+		verbose && console.debug('[DL] re-parsed lines', reparsed, this.blocks);
 
-			// Without full redecoration:
-			// Terms turned into list items or the other way around
-			if (!currentBlock.special &&
-				currentBlock.listLines.includes(line.number) === !line.text.match(/^(\*|-|\+|\d+\.) /)) {
-				// Either a list item was added; insert it in the list...
-				if (!currentBlock.listLines.includes(line.number)) {
-					currentBlock.listLines.push(line.number);
-					this.decorations = this.decorations.update({
-						add: [this.DD_LIST_DEC.range(line.from)],
-						/* remove the Term decoration from this line */
-						filter: (_f, _t, d) =>
-							(this.TERM_CLASS !== d.spec.class),
-						filterFrom: line.from,
-						filterTo: line.to
-					})
-				}
-				// ...or a list item was removed; delete its reference from the list
-				else {
-					currentBlock.listLines.remove(line.number);
-					this.decorations = this.decorations.update({
-						filter: (_f, _t, d) =>
-							(this.DD_LIST_CLASS !== d.spec.class),
-						filterFrom: line.from,
-						filterTo: line.to,
-						add: [this.TERM_DEC.range(line.from)]
-					});
-				}
-			}
-		})
-		if (fullRedecorationRequired)
-			this.decorateVisibleRangesFromScratch(update);
+		// Replace the decorations of the re-parsed lines
+		const docText = update.state.doc;
+		const from: number = docText.line(reparsed.from).from;
+		const to: number = docText.line(reparsed.to).to;
+		const first: number = blockIndexAt(this.blocks, reparsed.from);
+		const last: number = blockIndexAt(this.blocks, reparsed.to);
+		this.decorations = this.decorations.update({
+			filter: () => false,
+			filterFrom: from,
+			filterTo: to,
+			add: this.blockDecorations(update, this.blocks.slice(first, last + 1)),
+			sort: true
+		});
+		blockEvents.trigger('changed', update.view);
 	}
 
-	lineType(pos: number, tree: Tree): lineType {
+	lineType(pos: number, tree: Tree, text: string, lnr: number): LineType {
 		// check whether the position lies within a code block, table, formula block
 		/* Note that the syntaxTree is a lot "flatter" than you'd expect: a
 		 * code block is not one node with subnodes but a bunch of consecutive
 		 * nodes in the tree. So the real syntax TREE is hidden from us.
 		 * Note that the number node.type.id (≠1) for a particular type is different
-		 * at every run of Obsidian, so .id can't be used with consistency */
-		/* Also note that the tree parser seems to have a bug: it sometimes says
-		 * that a list item is a node of type "Document" (1) whereas it
-		 * should be formatting_formatting-list_formatting-list-ul_list-1.
-		 * This leads to incorrect rendering (as a definition-list term) */
-		let node = tree.resolveStack(pos, 1);
-		while (node) {
+		 * at every run of Obsidian, so .id can't be used with consistency.
+		 * The names of the nodes are mapped to line types in linetypes.ts */
+		const names: string[] = [];
+		for (let node = tree.resolveStack(pos, 1); node; node = node.next) {
 			verbose && console.debug(`[DL] ${node.node?.name} (${node.node?.type?.id})`);
 			if (node.node?.type?.id === 1)
-				return 'normal';
-			const name = node.node!.name.replace(/\d/g, '');
-			if (this.BLOCK_START_TYPES.contains(name))
-				return 'blockStart';
-			if (this.BLOCK_INNER_TYPES.contains(name))
-				return 'block';
-			if (this.BLOCK_END_TYPES.contains(name))
-				return 'blockEnd';
-			if (this.CONTIGUOUS_BLOCK_TYPES.contains(name))
-				return 'contiguousBlock';
-			if (this.LIST_TYPES.contains(name))
-				return 'listItem';
-			node = node.next;
+				break;  // Document
+			names.push(node.node.name);
 		}
-
-		/*const el = node.parentElement as HTMLElement;
-		const cls: DOMTokenList | undefined = el.closest('.cm-line')?.classList;
-		if (cls)
-			return cls.contains('HyperMD-codeblock');
-		if (el.closest('.cm-embed-block') || el.closest('table'))
-			// .cm-embed-block and .math are on elements that are siblings of the math source lines
-			return true;
-		return false;*/
+		return lineTypeOfNodes(names, text, lnr);
 	}
 }
 
@@ -488,6 +641,8 @@ class DocumentDecorationEngine implements PluginValue {
 const liveUpdateDefinitionLists: ViewPlugin<DocumentDecorationEngine> = ViewPlugin.fromClass(
 	DocumentDecorationEngine, {decorations: dde => dde.decorations}
 );
+/* The blocks of the engine of an editor, for the TermsView and the folds */
+const engineBlocks: BlocksOfEditor = view => view.plugin(liveUpdateDefinitionLists)?.documentBlocks() ?? null;
 /* The ViewPlugin class requires an embedded type that adheres to the
  * PluginValue interface. the class method .fromClass() returns a
  * ViewPlugin instance with that embedded type.
@@ -499,8 +654,90 @@ const liveUpdateDefinitionLists: ViewPlugin<DocumentDecorationEngine> = ViewPlug
  * of the embedded class, returns a DecorationSet - in this case the function
  * simply returns the .decorations instance property. */
 
+/* 2b. The keys that continue and restructure a definition list, as
+ * Obsidian does for bullet lists. Each command returns false when it
+ * doesn't apply, so the key keeps its normal function. */
+function dlLinesOfSelection(view: EditorView): DefinitionListLine[] | null {
+	const engine = view.plugin(liveUpdateDefinitionLists);
+	if (!engine)
+		return null;
+	const lines: DefinitionListLine[] = [];
+	for (const range of view.state.selection.ranges) {
+		const first: number = view.state.doc.lineAt(range.from).number;
+		const last: number = view.state.doc.lineAt(range.to).number;
+		for (let lnr = first; lnr <= last; lnr++) {
+			const line = engine.definitionListLine(lnr);
+			if (!line)
+				return null;
+			lines.push(line);
+		}
+	}
+	return lines;
+}
+const definitionListKeys: KeyBinding[] = [
+	{
+		/* At the end of a definition: a new definition marker on the next
+		 * line. On an empty definition: remove the marker, so the line
+		 * becomes the next term. */
+		key: 'Enter',
+		run: (view: EditorView): boolean => {
+			const selection = view.state.selection;
+			if (selection.ranges.length > 1 || !selection.main.empty)
+				return false;
+			const line: Line = view.state.doc.lineAt(selection.main.head);
+			const dlLine = view.plugin(liveUpdateDefinitionLists)?.definitionListLine(line.number);
+			if (dlLine?.role !== 'definition' || selection.main.head !== line.to)
+				return false;
+			const marker: string = line.text.slice(0, dlLine.markerLength);
+			// keep the quote, and the indentation of a nested list
+			const prefix: string = line.text.slice(0, dlLine.quote) + nestingIndent(line.text.slice(dlLine.quote), dlLine.depth);
+			if (!line.text.slice(dlLine.markerLength).trim().length)
+				view.dispatch({changes: {from: line.from, to: line.to, insert: prefix}});
+			else
+				view.dispatch(view.state.update({
+					changes: {from: line.to, insert: '\n' + marker},
+					selection: {anchor: line.to + 1 + marker.length},
+					scrollIntoView: true,
+					userEvent: 'input'
+				}));
+			return true;
+		}
+	},
+	{
+		/* Terms become definitions */
+		key: 'Tab',
+		run: (view: EditorView): boolean => {
+			const lines = dlLinesOfSelection(view);
+			if (!lines?.length || !lines.every(line => line.role === 'term'))
+				return false;
+			view.dispatch({changes: lines.map(line => ({
+				from: view.state.doc.line(line.number).from + line.quote +
+					nestingIndent(line.text.slice(line.quote), line.depth).length,
+				insert: MARKER
+			}))});
+			return true;
+		},
+		/* Definitions become terms */
+		shift: (view: EditorView): boolean => {
+			const lines = dlLinesOfSelection(view);
+			if (!lines?.length || !lines.every(line => line.role === 'definition'))
+				return false;
+			view.dispatch({changes: lines.map(line => {
+				const from: number = view.state.doc.line(line.number).from;
+				return {from: from + line.quote + nestingIndent(line.text.slice(line.quote), line.depth).length,
+					to: from + line.markerLength};
+			})});
+			return true;
+		}
+	}
+];
+/* The keys take precedence over Obsidian's own list handling */
+const definitionListKeymap: Extension = Prec.high(keymap.of(definitionListKeys));
+
 /* 3. The MarkdownPostProcessor that prepares Reading View and PDF export. */
-const postProcessDefinitionLists: MarkdownPostProcessor = function(element): Promise<null>|undefined {
+/* the paragraphs of blockquotes and callouts, which can hold definition lists too */
+const QUOTED_PARAGRAPHS: string = 'blockquote > p, .callout-content > p';
+const postProcessDefinitionLists = (app: App): MarkdownPostProcessor => function(element, context): Promise<null>|undefined {
 	/* This post-processor is called
      *  - when the document first enters Reading view: on every child-div of page div
      *  - when switching to Reading view: once per div that has changed
@@ -514,83 +751,76 @@ const postProcessDefinitionLists: MarkdownPostProcessor = function(element): Pro
 	/* In Reading View, the element passed in IS a single <div>;
 	 * in PDF output, it is the PARENT ELEMENT of all the <div>s.
 	 * First check if the element has class 'el-p' (Reading-view
-	 * paragraph), 'el-ul'/'el-ol' (Reading view list),
+	 * paragraph), 'el-ul'/'el-ol' (Reading view list), 'el-blockquote'
+	 * (Reading view blockquote or callout),
 	 * or 'markdown-rendered' (PDF-output root element).
      * If not, return immediately.  */
 	if (!element.classList.contains('el-p') &&
 		!element.classList.contains('el-ul') &&
 		!element.classList.contains('el-ol') &&
+		!element.classList.contains('el-blockquote') &&
 		!element.classList.contains('markdown-rendered'))
 		return;
 
 	// it's one paragraph (in Reading View), or the whole document (PDF)
 	let preCheckedPar: boolean = false,
-	    preCheckedList: boolean = false;
+	    preCheckedList: boolean = false,
+	    preCheckedQuote: boolean = false;
 	if (element.classList.contains('el-p')) { // Reading View paragraph
-		if (!element.firstElementChild.innerHTML.match(MARKER_REGEX))
+		if (!containsMarker(element.firstElementChild.innerHTML))
 			return;
 		verbose && console.debug('[DL] Creating modified version of paragraph');
 		preCheckedPar = true;
 	}
 	else if (element.classList.contains('el-ul') || element.classList.contains('el-ol')) {
 		// list: see if any newlines are inside, which may indicate definition lists
-		if (!element.findAll('li').find(li => li.innerHTML.match(MARKER_REGEX)))
+		if (!element.findAll('li').find(li => containsMarker(li.innerHTML)))
 			return;
 		verbose && console.debug('[DL] Creating modified version of list item');
 		preCheckedList = true;
 	}
+	else if (element.classList.contains('el-blockquote')) {
+		if (!element.findAll(QUOTED_PARAGRAPHS).find(par => containsMarker(par.innerHTML)))
+			return;
+		verbose && console.debug('[DL] Creating modified version of blockquote');
+		preCheckedQuote = true;
+	}
+
+	// the source lines, to find nested definition lists
+	const info: MarkdownSectionInformation | null = context.getSectionInfo(element);
+	const file = app.vault.getAbstractFileByPath(context.sourcePath);
+	const source: Promise<string[] | null> = info ?
+		Promise.resolve(info.text.split('\n').slice(info.lineStart, info.lineEnd + 1)) :
+		file instanceof TFile ? app.vault.cachedRead(file).then(text => text.split('\n'), () => null) :
+		Promise.resolve(null);  // without the source, nested lists are left as they are
 
 	/* This Promise has no content; the only use of its fulfillment
 	 * is to signal to the receiving process that we're done editing
 	 * its DOM. It's probably prudent to let the most time-consuming
 	 * part of our work take place inside the promise-returning function. */
-	return new Promise((resultCallback: (v: any) => void) => {
+	return new Promise((resultCallback: (v: any) => void) => source.then(sourceLines => {
 		let paragraphs: HTMLParagraphElement[] = [],
 			listItems: HTMLElement[] = [];
 		if (preCheckedPar)
 			paragraphs = [element.lastElementChild as HTMLParagraphElement];
 		else if (preCheckedList)
 			listItems = element.findAll('ul > li, ol > li')
-				.filter(li => li.innerHTML.match(MARKER_REGEX));
+				.filter(li => containsMarker(li.innerHTML));
+		else if (preCheckedQuote)
+			paragraphs = element.findAll(QUOTED_PARAGRAPHS) as HTMLParagraphElement[];
 		else {
-			paragraphs = element.findAll(':scope > div > p') as HTMLParagraphElement[];
+			paragraphs = element.findAll(':scope > div > p, :scope > div blockquote > p, :scope > div .callout-content > p'
+				) as HTMLParagraphElement[];
 			listItems = element.findAll(':scope > div > * > li')
-				.filter(li => li.innerHTML.match(MARKER_REGEX));
-		}
-		// function needed both for paragraphs and lists:
-		let startOfLine: boolean;
-		let itemElement: HTMLElement;
-		function insertClonedNode(node: ChildNode, defList: HTMLDListElement): void {
-			if ('tagName' in node && node.tagName === "BR") {
-				startOfLine = true;
-				return;
-			}
-			const clone = node.cloneNode(true);
-			if (startOfLine) {
-				if (node.textContent.match(MARKER_REGEX)) {
-					itemElement = defList.createEl('dd');
-					clone.textContent = node.textContent.slice(4);
-				}
-				else if (node.textContent.length <= MAX_TERM_LEN) {
-					// a term can't reasonably be longer than 100 chars
-					itemElement = defList.createEl('dt');
-				}
-				else {
-					itemElement = defList.createEl('p');
-				}
-				startOfLine = false;
-			}
-			itemElement.append(clone);
+				.filter(li => containsMarker(li.innerHTML));
 		}
-
 		paragraphs.forEach((par: HTMLParagraphElement) => {
-			if (!preCheckedPar && !par.innerHTML.match(MARKER_REGEX)) return;
+			if (!preCheckedPar && !containsMarker(par.innerHTML)) return;
 
 			// create the <dl> element that is to replace the paragraph element
 			const defList: HTMLDListElement = document.createElement('dl');
 			// fill the new <dl> with clones of the nodes in the original <p>
-			startOfLine = true;
-			par.childNodes.forEach(node => insertClonedNode(node, defList))
+			fillDefinitionList(par.childNodes, defList, sourceLines);
 
 			// put the <dl> in place of the <p>
 			par.replaceWith(defList);
@@ -608,8 +838,7 @@ const postProcessDefinitionLists: MarkdownPostProcessor = function(element): Pro
 			// clone the contents of the <li> after newline to the <dl>
 			const virtual: HTMLDivElement = document.createElement('div');
 			virtual.innerHTML = originalHTML.slice(newlinePos+4);
-			startOfLine = true;
-			virtual.childNodes.forEach(node => insertClonedNode(node, defList));
+			fillDefinitionList(virtual.childNodes, defList, null);
 			if (!li.nextElementSibling)
 				return;
 			const newList: HTMLElement = li.parentElement.cloneNode(false) as HTMLElement;
@@ -623,7 +852,62 @@ const postProcessDefinitionLists: MarkdownPostProcessor = function(element): Pro
 		})
 
 		resultCallback(null);
-	})
+	}).catch(error => {
+		console.error('[DL] Failed to create definition lists', error);
+		resultCallback(null);
+	}));
+}
+
+/* 3a. The MarkdownPostProcessor for definition lists that continue after an
+ * empty line. Obsidian renders every part between empty lines as a section
+ * of its own: a paragraph of terms before an empty line and a definition
+ * marker, or a paragraph of a definition indented by four spaces (which
+ * Obsidian shows as code). The post-processor gets only one section at a
+ * time, so it looks up the section's lines in the parsed source text. */
+let parsedSource: {text: string, blocks: Block[]} = {text: '', blocks: []};
+function continuationPostProcessor(app: App): MarkdownPostProcessor {
+	return (element, context): Promise<void> | undefined => {
+		if (!element.classList.contains('el-p') && !element.classList.contains('el-pre'))
+			return;
+		const info: MarkdownSectionInformation | null = context.getSectionInfo(element);
+		if (!info)
+			return;  // e.g. when exporting to PDF
+		if (parsedSource.text !== info.text)  // several sections of the same text come in a row
+			parsedSource = {text: info.text, blocks: parseMarkdown(info.text, 0)};
+		const block: Block | undefined = parsedSource.blocks[blockIndexAt(parsedSource.blocks, info.lineStart)];
+		if (!block?.isDefinitionList)
+			return;
+		const lines = block.lines.filter(l => l.number >= info.lineStart && l.number <= info.lineEnd);
+		if (!lines.length || lines.some(l => l.role === 'definition' && !l.depth))
+			return;  // a section with markers is for postProcessDefinitionLists
+		verbose && console.debug('[DL] continuation of definition list', lines);
+
+		const defList: HTMLDListElement = document.createElement('dl');
+		if (lines.every(l => l.role === 'term' || l.role === 'empty')) {
+			// terms, separated from their definition by an empty line
+			const par = element.querySelector(':scope > p');
+			if (!par) return;
+			let dt: HTMLElement = defList.createEl('dt');
+			par.childNodes.forEach(node => {
+				if ('tagName' in node && node.tagName === "BR")
+					dt = defList.createEl('dt');
+				else
+					dt.append(node.cloneNode(true));
+			});
+			defList.findAll('dt').forEach(term => term.id = termSlug(term.textContent));
+			par.replaceWith(defList);
+			return;
+		}
+		// more paragraphs of a definition, or a nested definition list:
+		// render them without their indentation
+		const dd: HTMLElement = defList.createEl('dd');
+		element.empty();
+		element.append(defList);
+		const child = new MarkdownRenderChild(dd);
+		context.addChild(child);
+		const markdown: string = lines.map(l => l.depth ? stripIndent(l.text.slice(l.quote), 1) : lineContent(l)).join('\n');
+		return MarkdownRenderer.render(app, markdown, dd, context.sourcePath, child);
+	};
 }
 
 /* 4. The PluginSettingTab for this plugin's settings. */
@@ -632,12 +916,22 @@ class DefinitionListSettingTab extends PluginSettingTab {
 	private readonly settings: DefinitionListPluginSettings;
 	private readonly cssElement: HTMLStyleElement;
 	private readonly saveChanges: (data: any) => Promise<void>;
+	private readonly refreshTermHover: () => void;
+	private readonly refreshMarkers: () => void;
+	private readonly refreshNoteStyles: () => void;
+	private readonly refreshLint: () => void;
+	private readonly refreshDuplicates: () => void;
 	constructor(app: App, plugin: DefinitionListPlugin) {
 		super(app, plugin);
 		this.name = plugin.manifest.name;
 		this.settings = plugin.settings;
 		this.cssElement = plugin.cssElement;
 		this.saveChanges = plugin.saveData.bind(plugin);
+		this.refreshTermHover = plugin.refreshTermHover.bind(plugin);
+		this.refreshMarkers = plugin.refreshMarkers.bind(plugin);
+		this.refreshNoteStyles = plugin.refreshNoteStyles.bind(plugin);
+		this.refreshLint = plugin.refreshLint.bind(plugin);
+		this.refreshDuplicates = plugin.refreshDuplicates.bind(plugin);
 	}
 
 	display(): void {
@@ -743,8 +1037,9 @@ class DefinitionListSettingTab extends PluginSettingTab {
 
 		// The preview that shows how the settings work out
 		containerEl.createEl('div', {cls: 'setting-item-name', text: 'Preview'});
-		containerEl.createEl('div', {cls: 'example markdown-preview-view'})
-		.innerHTML = `
+		const example: HTMLDivElement = containerEl.createEl('div', {cls: 'example markdown-preview-view'});
+		setLayoutClass(example, this.settings.layout);
+		example.innerHTML = `
 			<dl>
 			<dt>definition list</dt>
 			<dd>a list of pairs <i>(term, definition)</i> where each
@@ -754,5 +1049,124 @@ class DefinitionListSettingTab extends PluginSettingTab {
 			<dd>when a line or paragraph starts at a distance from the left margin</dd>
 			</dl>
 		`;
+
+		new Setting(containerEl)
+			.setName('Layout')
+			.setDesc('How terms and definitions are arranged. A note can have its own layout ' +
+				'with the frontmatter key deflist-layout, or the cssclass dl-layout-grid, -inline, -table or -stacked')
+			.addDropdown(dd => dd
+				.addOptions(LAYOUTS)
+				.setValue(this.settings.layout)
+				.onChange(newLayout => {
+					verbose && console.debug('[DL] layout set to', newLayout);
+					this.settings.layout = newLayout as Layout;
+					setLayoutClass(example, this.settings.layout);
+					this.refreshNoteStyles();
+					// noinspection JSIgnoredPromiseFromCall
+					this.saveChanges(this.settings);
+				})
+			);
+
+		// Hover previews of terms used elsewhere in the text
+		new Setting(containerEl)
+			.setName('Hover previews')
+			.setDesc('Show the definition when hovering over a defined term')
+			.addDropdown(dd => dd
+				.addOptions({off: 'Off', note: 'Terms of the same note', vault: 'Terms of the whole vault'})
+				.setValue(this.settings.hoverScope)
+				.onChange(newScope => {
+					verbose && console.debug('[DL] hover scope set to', newScope);
+					this.settings.hoverScope = newScope as HoverScope;
+					this.refreshTermHover();
+					// noinspection JSIgnoredPromiseFromCall
+					this.saveChanges(this.settings);
+				})
+			);
+		new Setting(containerEl)
+			.setDesc('Case-sensitive matching of terms')
+			.addToggle(tog => tog
+				.setValue(this.settings.hoverCaseSensitive)
+				.onChange(newCase => {
+					verbose && console.debug('[DL] hover case sensitivity set to', newCase);
+					this.settings.hoverCaseSensitive = newCase;
+					this.refreshTermHover();
+					// noinspection JSIgnoredPromiseFromCall
+					this.saveChanges(this.settings);
+				})
+			);
+
+		new Setting(containerEl)
+			.setName('Problems')
+			.setDesc('Point out mistakes in definition lists in the editor, such as a marker with the wrong spacing ' +
+				'or a term without a definition')
+			.addToggle(tog => tog
+				.setValue(this.settings.lint)
+				.onChange(newLint => {
+					verbose && console.debug('[DL] lint set to', newLint);
+					this.settings.lint = newLint;
+					this.refreshLint();
+					// noinspection JSIgnoredPromiseFromCall
+					this.saveChanges(this.settings);
+				})
+			);
+
+		// Terms that are defined more than once
+		const duplicateOptions: [keyof DuplicateSettings, string][] = [
+			['duplicateWarnings', 'Underline a term in the editor that is defined elsewhere too'],
+			['duplicateIgnoreCase', 'Terms that differ only in case are the same'],
+			['duplicateIgnorePunctuation', 'Terms that differ only in punctuation are the same'],
+			['duplicatePlurals', 'A term with a simple English plural ending (-s, -es, -ies) is the same as its singular']
+		];
+		duplicateOptions.forEach(([key, description], i) => {
+			const setting = new Setting(containerEl).setDesc(description);
+			if (i === 0)
+				setting.setName('Duplicate terms');
+			setting.addToggle(tog => tog
+				.setValue(this.settings[key])
+				.onChange(value => {
+					verbose && console.debug(`[DL] ${key} set to`, value);
+					this.settings[key] = value;
+					this.refreshDuplicates();
+					// noinspection JSIgnoredPromiseFromCall
+					this.saveChanges(this.settings);
+				})
+			);
+		});
+
+		new Setting(containerEl)
+			.setName('Flashcard ids')
+			.setDesc('Give every exported flashcard an id, made from its first term, so that importing ' +
+				'the cards into Anki again updates them instead of adding them twice')
+			.addToggle(tog => tog
+				.setValue(this.settings.flashcardIds)
+				.onChange(newIds => {
+					this.settings.flashcardIds = newIds;
+					// noinspection JSIgnoredPromiseFromCall
+					this.saveChanges(this.settings);
+				})
+			);
+
+		// Marker forms besides ':   ', e.g. for notes written for Pandoc
+		const markerOptions: [keyof MarkerOptions, string][] = [
+			['markerTilde', 'Accept a tilde ~ instead of the colon'],
+			['markerSpace', 'Accept one or more spaces after the colon, instead of exactly three'],
+			['markerTab', 'Accept a tab after the colon'],
+			['markerIndented', 'Accept a marker indented by one or two spaces']
+		];
+		markerOptions.forEach(([key, description], i) => {
+			const setting = new Setting(containerEl).setDesc(description);
+			if (i === 0)
+				setting.setName('Definition markers (Pandoc compatibility)');
+			setting.addToggle(tog => tog
+				.setValue(this.settings[key])
+				.onChange(value => {
+					verbose && console.debug(`[DL] ${key} set to`, value);
+					this.settings[key] = value;
+					this.refreshMarkers();
+					// noinspection JSIgnoredPromiseFromCall
+					this.saveChanges(this.settings);
+				})
+			);
+		});
 	}
 }
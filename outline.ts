@@ -0,0 +1,173 @@
+import {Events, ItemView, MarkdownView, TAbstractFile, WorkspaceLeaf, debounce} from 'obsidian';
+import {EditorView} from '@codemirror/view';
+import {Block, lineContent, parseMarkdown} from './parser';
+
+/* Terms of the current note
+ * =========================
+ * The TermsView is a sidebar, like Obsidian's outline, that lists the terms
+ * of the active note in document order, under the heading they come after.
+ * In the editor it takes the blocks that the DocumentDecorationEngine keeps
+ * for the whole document, so it follows every edit without parsing the note
+ * again; the engine announces new blocks on blockEvents. In Reading View,
+ * or before the editor has been shown, it parses the text of the note.
+ * Line numbers are 1-based, as in the parser and CodeMirror.
+ */
+
+export const VIEW_TYPE_TERMS: string = 'definition-list-terms';
+
+/** Triggers 'changed' with the EditorView whose blocks have changed */
+export const blockEvents: Events = new Events();
+
+/** The blocks that the decoration engine keeps for an editor, if it has parsed its document */
+export type BlocksOfEditor = (view: EditorView) => Block[] | null;
+
+interface OutlineTerm {
+	text: string,
+	line: number,
+	/** the nesting depth of its definition list */
+	depth: number
+}
+interface OutlineSection {
+	heading: {text: string, level: number, line: number} | null,
+	terms: OutlineTerm[]
+}
+
+const HEADING_REGEX: RegExp = /^ {0,3}(#{1,6})\s+(.*?)(\s+#+)?\s*$/;
+
+/** The terms of the blocks, grouped by the heading before them; sections without terms are left out */
+export function outlineOf(blocks: Block[]): OutlineSection[] {
+	const sections: OutlineSection[] = [{heading: null, terms: []}];
+	for (const block of blocks) {
+		if (block.special) {
+			for (const line of block.lines) {
+				const match = line.type === 'contiguousBlock' ? line.text.match(HEADING_REGEX) : null;
+				if (match)
+					sections.push({heading: {text: match[2], level: match[1].length, line: line.number}, terms: []});
+			}
+			continue;
+		}
+		if (!block.isDefinitionList)
+			continue;
+		const terms: OutlineTerm[] = sections[sections.length - 1].terms;
+		for (const line of block.lines)
+			if (line.role === 'term')
+				terms.push({text: lineContent(line).trim(), line: line.number, depth: line.depth});
+	}
+	return sections.filter(section => section.terms.length);
+}
+
+/** The sidebar view with the terms of the active note */
+export class TermsView extends ItemView {
+	private readonly blocksOf: BlocksOfEditor;
+	/* the note whose terms are shown; stays when the focus moves to the sidebar */
+	private markdownView: MarkdownView | null = null;
+	private query: string = '';
+	private listEl: HTMLElement;
+
+	constructor(leaf: WorkspaceLeaf, blocksOf: BlocksOfEditor) {
+		super(leaf);
+		this.blocksOf = blocksOf;
+	}
+
+	getViewType(): string {
+		return VIEW_TYPE_TERMS;
+	}
+	getDisplayText(): string {
+		return 'Terms of this note';
+	}
+	getIcon(): string {
+		return 'list-tree';
+	}
+
+	async onOpen(): Promise<void> {
+		const container: HTMLElement = this.contentEl;
+		container.empty();
+		container.addClass('dl-terms');
+		const search: HTMLInputElement = container.createEl('input', {
+			type: 'search', cls: 'dl-terms-search', attr: {placeholder: 'Filter terms...'}
+		});
+		search.addEventListener('input', () => {
+			this.query = search.value.toLowerCase();
+			this.render();
+		});
+		this.listEl = container.createDiv({cls: 'dl-terms-list', attr: {role: 'list'}});
+
+		// the engine reports every keystroke
+		const refresh = debounce(() => this.render(), 300, true);
+		this.registerEvent(blockEvents.on('changed', (view: EditorView) => {
+			if (view === this.editorView())
+				refresh();
+		}));
+		this.registerEvent(this.app.workspace.on('active-leaf-change', leaf => {
+			// other views, such as this one, leave the note as it is
+			if (leaf?.view instanceof MarkdownView && leaf.view !== this.markdownView) {
+				this.markdownView = leaf.view;
+				this.render();
+			}
+		}));
+		this.registerEvent(this.app.workspace.on('file-open', () => {
+			this.markdownView = this.app.workspace.getActiveViewOfType(MarkdownView) ?? this.markdownView;
+			this.render();
+		}));
+		// changes from outside the editor, e.g. by sync
+		this.registerEvent(this.app.vault.on('modify', (file: TAbstractFile) => {
+			if (file === this.markdownView?.file)
+				refresh();
+		}));
+		this.markdownView = this.app.workspace.getActiveViewOfType(MarkdownView);
+		this.render();
+	}
+
+	/* Obsidian's Editor is a wrapper around the CodeMirror EditorView */
+	private editorView(): EditorView | undefined {
+		return (this.markdownView?.editor as unknown as {cm?: EditorView} | undefined)?.cm;
+	}
+
+	private blocks(view: MarkdownView): Block[] {
+		const cm: EditorView | undefined = this.editorView();
+		return (view.getMode() === 'source' && cm && this.blocksOf(cm)) || parseMarkdown(view.getViewData());
+	}
+
+	render(): void {
+		this.listEl.empty();
+		const view: MarkdownView | null = this.markdownView;
+		// the note may have been closed in the meantime
+		if (!view?.file || !view.leaf.parent) {
+			this.listEl.createDiv({cls: 'dl-terms-empty', text: 'No note is open'});
+			return;
+		}
+		const sections: OutlineSection[] = outlineOf(this.blocks(view))
+			.map(section => ({
+				heading: section.heading,
+				terms: section.terms.filter(term => term.text.toLowerCase().includes(this.query))
+			}))
+			.filter(section => section.terms.length);
+		if (!sections.length) {
+			this.listEl.createDiv({cls: 'dl-terms-empty', text: 'No terms found'});
+			return;
+		}
+		for (const {heading, terms} of sections) {
+			if (heading) {
+				const headingEl = this.listEl.createDiv({cls: `dl-terms-heading dl-terms-heading-${heading.level}`,
+					text: heading.text, attr: {role: 'listitem'}});
+				headingEl.addEventListener('click', () => this.scrollTo(view, heading.line));
+			}
+			for (const term of terms) {
+				const termEl = this.listEl.createDiv({cls: 'dl-terms-term', text: term.text, attr: {role: 'listitem'}});
+				termEl.style.setProperty('--dldepth', String(term.depth));
+				termEl.addEventListener('click', () => this.scrollTo(view, term.line));
+			}
+		}
+	}
+
+	/* Shows the line in the note, in any mode, with the cursor on it in the editor */
+	private scrollTo(view: MarkdownView, lnr: number): void {
+		const line: number = lnr - 1;  // the Editor counts from 0
+		view.setEphemeralState({line});
+		if (view.getMode() === 'source') {
+			view.editor.setCursor({line, ch: 0});
+			view.editor.scrollIntoView({from: {line, ch: 0}, to: {line, ch: 0}}, true);
+		}
+		this.app.workspace.setActiveLeaf(view.leaf, {focus: true});
+	}
+}
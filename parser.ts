@@ -0,0 +1,657 @@
+/* Definition List parser
+ * ======================
+ * Turns Markdown text into a model of blocks, terms and definitions,
+ * following the rules in doc/Specifications.md. This module has no
+ * dependency on Obsidian or CodeMirror, so that the editor (Live Preview)
+ * and the post-processor (Reading View, PDF) share one implementation
+ * of the rules, and so that it can be run under plain Node.
+ *
+ * The input is a sequence of lines. Each line has a LineType that tells
+ * whether it is part of a special block (code, formula, header, table...).
+ * The editor derives the LineType from the CodeMirror syntax tree (see
+ * linetypes.ts), falling back on textLineType() for a line that the tree
+ * doesn't explain; without such a tree, textLineClassifier() derives it
+ * from the text itself.
+ */
+
+/** The plugin's own definition marker, used whenever the plugin writes one */
+export const MARKER: string = ':   ';
+export const MARKER_LEN: number = MARKER.length;
+export const MAX_TERM_LEN: number = 100;
+const LIST_ITEM_REGEX: RegExp = /^\s*([*+-]|\d+[.)])\s/;
+const ATTRIBUTE_REGEX: RegExp = /([.#])([\w-]+)|([\w-]+)=(?:"([^"]*)"|([^\s}]+))/g;
+const SLUG_REMOVE_REGEX: RegExp = new RegExp('[^\\p{L}\\p{N}\\s-]', 'gu');
+const ATTRIBUTES_LINE_REGEX: RegExp = /^\{\s*(?:(?:[.#][\w-]+|[\w-]+=(?:"[^"]*"|[^\s}]+))\s*)+}\s*$/;
+const QUOTE_REGEX: RegExp = /^ {0,3}> ?/;
+const CALLOUT_REGEX: RegExp = /^\s*\[![^\]]+][+-]?/;
+const FRONTMATTER_REGEX: RegExp = /^---[ \t]*\r?\n([\s\S]*?\r?\n)?(---|\.\.\.)[ \t]*(\r?\n|$)/;
+
+/** The kind of a line as far as block boundaries are concerned (Rule 2) */
+export type LineType = 'blockStart' | 'blockEnd' | 'block' | 'contiguousBlock' | 'listItem' | 'normal';
+/** The role of a line inside a block (Rule 3). Lines outside definition lists are 'other' */
+export type LineRole = 'term' | 'definition' | 'continuation' | 'listItem' | 'empty' | 'attributes' | 'other';
+
+export interface SourceLine {
+	/** the line number as the host counts it (CodeMirror: 1-based) */
+	number: number,
+	text: string,
+	type: LineType
+}
+export interface DefinitionListLine {
+	number: number,
+	text: string,
+	type: LineType,
+	role: LineRole,
+	/** the number of characters of marker (and nesting indentation) before the content, 0 if no marker */
+	markerLength: number,
+	/** 0 in a top-level definition list, 1 in a list nested inside a definition, etc. */
+	depth: number,
+	/** the number of characters of blockquote markers (`> `) at the start, 0 outside a blockquote or callout;
+	 * markerLength includes them */
+	quote: number
+}
+/** One definition: a marker line, and the definition text, list items and nested lists that follow it */
+export interface Definition {
+	lines: DefinitionListLine[]
+}
+/** One or more terms and the definitions that belong to them */
+export interface DefinitionListItem {
+	terms: DefinitionListLine[],
+	definitions: Definition[]
+}
+/** The classes, id and other attributes of a list, from a line like `{.compact #glossary}` before it */
+export interface ListAttributes {
+	id: string | null,
+	classes: string[],
+	attributes: Record<string, string>
+}
+/** A run of lines delimited according to Rule 2 */
+export interface Block {
+	firstLine: number,
+	lastLine: number,
+	/** a code block, formula, header, table etc.; never a definition list */
+	special: boolean,
+	/** true if the block is a definition list, i.e. not special and with a marker */
+	isDefinitionList: boolean,
+	lines: DefinitionListLine[],
+	/** the terms and definitions, empty if the block isn't a definition list */
+	items: DefinitionListItem[],
+	/** the attributes of the list, if its first line is an attribute line */
+	attributes: ListAttributes | null
+}
+
+/**
+ * The marker forms that are accepted besides the colon and three spaces.
+ * Pandoc also accepts a tilde, a single space or a tab after the colon,
+ * and a marker indented by one or two spaces.
+ */
+export interface MarkerOptions {
+	markerTilde: boolean,
+	markerSpace: boolean,
+	markerTab: boolean,
+	markerIndented: boolean
+}
+let markerRegex: RegExp = /^: {3}/;
+
+/** Sets the marker forms that are recognised from now on */
+export function configureMarkers(options: MarkerOptions): void {
+	const whitespace: string[] = [options.markerSpace ? ' +' : ' {3}'];
+	if (options.markerTab)
+		whitespace.push('\t');
+	markerRegex = new RegExp('^' + (options.markerIndented ? ' {0,2}' : '') +
+		(options.markerTilde ? '[:~]' : ':') + `(?:${whitespace.join('|')})`);
+}
+
+/** The length of the definition marker at the start of the line, 0 if it has none */
+export function markerLength(text: string): number {
+	return text.match(markerRegex)?.[0].length ?? 0;
+}
+
+/** true if the line starts with a definition marker (Rule 1) */
+export function hasMarker(text: string): boolean {
+	return markerRegex.test(text);
+}
+
+/** true if any of the lines of the text starts with a definition marker */
+export function containsMarker(text: string): boolean {
+	return text.split('\n').some(hasMarker);
+}
+
+/** The text of the line without its definition marker, nesting indentation or the indentation of a continuation */
+export function lineContent(line: DefinitionListLine): string {
+	if (line.role === 'continuation')
+		return stripIndent(line.text.slice(line.quote), line.depth + 1);
+	if (line.role === 'definition')
+		return line.text.slice(line.markerLength);
+	return stripIndent(line.text.slice(line.quote), line.depth);
+}
+
+/** The text of a definition, its lines joined by newlines, without the marker */
+export function definitionText(definition: Definition): string {
+	return definition.lines.map(lineContent).join('\n');
+}
+
+/** true if the line is indented by a tab or at least four spaces, i.e. a continuation of a definition */
+export function isIndented(text: string): boolean {
+	return /^( {4}|\t)/.test(text) && text.trim().length > 0;
+}
+
+/**
+ * The anchor of a term, for links like [[Note#term]] and for the id of its
+ * <dt>: the text without Markdown, in lower case, with dashes for spaces
+ */
+export function termSlug(term: string): string {
+	return term
+		.replace(/\[\[(?:[^\]|]*\|)?([^\]]*)]]/g, '$1')  // wikilink: its alias or target
+		.replace(/\[([^\]]*)]\([^)]*\)/g, '$1')             // Markdown link: its text
+		.replace(SLUG_REMOVE_REGEX, '')
+		.trim().toLowerCase()
+		.replace(/\s+/g, '-');
+}
+
+/** The attributes of a Pandoc-style attribute line such as `{.compact #glossary lang=en}`, or null */
+export function parseAttributes(text: string): ListAttributes | null {
+	if (!ATTRIBUTES_LINE_REGEX.test(text))
+		return null;
+	const result: ListAttributes = {id: null, classes: [], attributes: {}};
+	for (let match: RegExpExecArray | null; (match = ATTRIBUTE_REGEX.exec(text));) {
+		const [, sign, name, key, quoted, value] = match;
+		if (sign === '#')
+			result.id = name;
+		else if (sign === '.')
+			result.classes.push(name);
+		else
+			result.attributes[key] = quoted ?? value;
+	}
+	return result;
+}
+
+/** The length of the blockquote markers at the start of the line, e.g. 4 for `> > text` */
+export function quoteLength(text: string): number {
+	let length: number = 0;
+	for (let match: RegExpMatchArray | null; (match = text.slice(length).match(QUOTE_REGEX));)
+		length += match[0].length;
+	return length;
+}
+
+/** The number of levels of indentation (a tab or four spaces each) at the start of the line */
+export function indentLevel(text: string): number {
+	return text.match(/^( {4}|\t)*/)[0].replace(/ {4}/g, '\t').length;
+}
+
+/** The text without the first `levels` levels of indentation */
+export function stripIndent(text: string, levels: number): string {
+	for (let i = 0; i < levels && /^( {4}|\t)/.test(text); i++)
+		text = text.replace(/^( {4}|\t)/, '');
+	return text;
+}
+
+/** The indentation that puts a line at the nesting depth */
+export function nestingIndent(text: string, depth: number): string {
+	return text.slice(0, text.length - stripIndent(text, depth).length);
+}
+
+/**
+ * The nesting depth of every line of a definition list. A definition can
+ * contain a definition list of its own: lines indented one level deeper
+ * than the definition, among which at least one has a definition marker
+ * right after that indentation. Indented lines without such a marker are
+ * a continuation of the definition, as before.
+ */
+export function nestingDepths(texts: string[]): number[] {
+	const depths: number[] = texts.map(() => 0);
+	const nest = (depth: number, from: number, to: number) => {
+		let definitionSeen: boolean = false;  // a nested list needs a definition to be in
+		for (let i = from; i < to;) {
+			if (!definitionSeen || indentLevel(texts[i]) <= depth || !texts[i].trim().length) {
+				definitionSeen = definitionSeen || hasMarker(stripIndent(texts[i], depth));
+				i++;
+				continue;
+			}
+			// the deeper lines from here, with the empty lines between them
+			let end: number = i + 1;
+			for (let j = i + 1; j < to; j++) {
+				if (indentLevel(texts[j]) > depth)
+					end = j + 1;
+				else if (texts[j].trim().length)
+					break;
+			}
+			const nested: boolean = texts.slice(i, end).some(text =>
+				indentLevel(text) === depth + 1 && hasMarker(stripIndent(text, depth + 1)));
+			if (nested) {
+				depths.fill(depth + 1, i, end);
+				nest(depth + 1, i, end);
+			}
+			i = end;
+		}
+	};
+	nest(0, 0, texts.length);
+	return depths;
+}
+
+const HTML_BLOCK_REGEX: RegExp = new RegExp('^ {0,3}</?(address|article|aside|blockquote|center|details|dialog|div|dl|' +
+	'fieldset|figcaption|figure|footer|form|h[1-6]|header|hr|iframe|main|nav|ol|p|pre|script|section|style|summary|' +
+	'table|ul|video)(\\s|/?>|$)', 'i');
+
+/** true if the text of the line makes it a Markdown list item */
+export function isListItem(text: string): boolean {
+	return LIST_ITEM_REGEX.test(text);
+}
+
+/**
+ * The LineType of a line from its text alone, for the constructs that
+ * can be recognised on a single line; a line of a multi-line block such
+ * as code or frontmatter can't, and is 'normal'
+ */
+export function textLineType(text: string): LineType {
+	const trimmed = text.trim();
+	if (/^#{1,6}(\s|$)/.test(trimmed) ||              // header
+		trimmed.startsWith('>') ||                    // block quote, callout
+		trimmed.startsWith('|') ||                    // table
+		/^([-*_])(\s*\1){2,}$/.test(trimmed) ||       // horizontal line
+		/^!\[/.test(trimmed) ||                       // image, embed
+		/^\[\^[^\]]+]:/.test(trimmed) ||              // footnote definition
+		/^%%.*%%$/.test(trimmed) && trimmed.length >= 4 ||  // one-line comment
+		/^<!--.*-->/.test(trimmed) ||                 // one-line HTML comment
+		HTML_BLOCK_REGEX.test(text) ||                // HTML block
+		/^\s*([*+-]|\d+[.)])\s+\[.\]/.test(text))     // task
+		return 'contiguousBlock';
+	if (isListItem(text))
+		return 'listItem';
+	return 'normal';
+}
+
+/**
+ * Returns a function that determines the LineType of consecutive lines from
+ * their text alone. It keeps track of fenced code and formula blocks,
+ * comments (`%%` and `<!--`), HTML blocks and, if the text is a whole
+ * note, frontmatter; so it must be called on every line in document order.
+ */
+export function textLineClassifier(frontmatter: boolean = true): (text: string) => LineType {
+	let fence: string | null = null;  // the string that will close the current block
+	let firstLine: boolean = frontmatter;
+	let inHtml: boolean = false;      // an HTML block ends at an empty line
+	return (text: string): LineType => {
+		const trimmed = text.trim();
+		const first: boolean = firstLine;
+		firstLine = false;
+		if (fence) {
+			const closes: boolean = fence === '$$' || fence === '%%' ? trimmed.endsWith(fence) :
+				fence === '-->' ? trimmed.includes(fence) :
+				fence === '---' ? /^(---|\.\.\.)$/.test(trimmed) :
+				new RegExp(`^${fence[0]}{${fence.length},}$`).test(trimmed);
+			if (closes) {
+				fence = null;
+				return 'blockEnd';
+			}
+			return 'block';
+		}
+		if (inHtml) {
+			if (trimmed.length)
+				return 'contiguousBlock';
+			inHtml = false;
+		}
+		if (first && trimmed === '---') {
+			fence = '---';  // frontmatter
+			return 'blockStart';
+		}
+		const fenceMatch = trimmed.match(/^(`{3,}|~{3,})/);
+		if (fenceMatch) {
+			fence = fenceMatch[1];
+			return 'blockStart';
+		}
+		if (trimmed.startsWith('$$')) {
+			if (trimmed.length > 2 && trimmed.endsWith('$$'))
+				return 'contiguousBlock';  // a one-line formula block
+			fence = '$$';
+			return 'blockStart';
+		}
+		if ((trimmed.startsWith('%%') && !(trimmed.length >= 4 && trimmed.endsWith('%%'))) ||
+			(trimmed.startsWith('<!--') && !trimmed.includes('-->'))) {
+			fence = trimmed.startsWith('%%') ? '%%' : '-->';  // a comment of several lines
+			return 'blockStart';
+		}
+		const type: LineType = textLineType(text);
+		inHtml = HTML_BLOCK_REGEX.test(text);
+		return type;
+	}
+}
+
+/** Converts Markdown text into SourceLines, numbered from `firstLineNumber`; `frontmatter` if it's a whole note */
+export function sourceLines(markdown: string, firstLineNumber: number = 1, frontmatter: boolean = true): SourceLine[] {
+	// three dashes on the first line only start frontmatter if they are closed
+	const classify = textLineClassifier(frontmatter && FRONTMATTER_REGEX.test(markdown));
+	return markdown.split(/\r?\n/).map((text, i) => ({
+		number: firstLineNumber + i, text, type: classify(text)
+	}));
+}
+
+/**
+ * Determines the role of every line of one non-special block (Rule 3).
+ * @param lines the text of each line, whether it is a Markdown list item,
+ *   and its nesting depth (see nestingDepths)
+ */
+export function lineRoles(lines: {text: string, listItem: boolean, depth?: number}[]): LineRole[] {
+	let first: boolean = true;  // only the first line can be an attribute line
+	return lines.map(({text, listItem, depth}) => {
+		const firstLine: boolean = first && text.trim().length > 0;
+		first = first && !firstLine;
+		text = stripIndent(text, depth ?? 0);
+		if (firstLine && !depth && ATTRIBUTES_LINE_REGEX.test(text))
+			return 'attributes';
+		if (hasMarker(text))
+			return 'definition';
+		if (listItem)
+			return 'listItem';
+		if (!text.trim().length)
+			return 'empty';
+		if (text.length > MAX_TERM_LEN || isIndented(text))
+			return 'continuation';  // too long to be credible as a term, or indented
+		return 'term';
+	});
+}
+
+/**
+ * Groups the lines of a definition list into terms and their definitions.
+ * The lines of a nested list are part of the definition they're in;
+ * groupItems(lines, depth + 1) on those lines gives the nested items.
+ */
+export function groupItems(lines: DefinitionListLine[], depth: number = 0): DefinitionListItem[] {
+	const items: DefinitionListItem[] = [];
+	let item: DefinitionListItem | undefined;
+	for (const line of lines) {
+		if (line.depth > depth) {
+			// a nested list always comes after a definition marker
+			item?.definitions[item.definitions.length - 1]?.lines.push(line);
+			continue;
+		}
+		switch (line.role) {
+			case 'term':
+				if (!item || item.definitions.length) {
+					item = {terms: [], definitions: []};
+					items.push(item);
+				}
+				item.terms.push(line);
+				break;
+			case 'definition':
+			case 'continuation':
+			case 'listItem':
+				// a block may start with definition text, e.g. after a formula
+				if (!item) {
+					item = {terms: [], definitions: []};
+					items.push(item);
+				}
+				if (line.role === 'definition' || !item.definitions.length)
+					item.definitions.push({lines: []});
+				item.definitions[item.definitions.length - 1].lines.push(line);
+				break;
+			case 'empty':
+				// an empty line between paragraphs of the same definition
+				if (item?.definitions.length)
+					item.definitions[item.definitions.length - 1].lines.push(line);
+		}
+	}
+	return items;
+}
+
+/**
+ * Makes a blockquote or callout with definition lists in it a definition-list
+ * block (see Rule 2). Its content, without one level of `>` on every line, is
+ * parsed as a document of its own, so a quote inside the quote is handled
+ * in the same way. The quote stays one block, with the items of all its lists.
+ */
+function parseQuote(block: Block): void {
+	const texts: string[] = block.lines.map(line => line.text);
+	const prefixes: number[] = texts.map(text => text.match(QUOTE_REGEX)?.[0].length ?? 0);
+	if (prefixes.some(prefix => !prefix) || !texts.some(text => /[:~]/.test(text)))
+		return;
+	const contents: string[] = texts.map((text, i) => text.slice(prefixes[i]));
+	// the title line of a callout, `> [!note] Title`, is not part of its content
+	const title: DefinitionListLine[] = CALLOUT_REGEX.test(contents[0]) ? block.lines.slice(0, 1) : [];
+	const content: Block[] = parseLines(sourceLines(contents.slice(title.length).join('\n'),
+		block.firstLine + title.length, false));
+	const lists: Block[] = content.filter(b => b.isDefinitionList);
+	if (!lists.length)
+		return;
+	block.special = false;
+	block.isDefinitionList = true;
+	// the lines of the content, which are also those of the items, get their quote back
+	block.lines = content.reduce((lines, b) => lines.concat(b.lines), title);
+	block.lines.forEach((line, i) => {
+		line.text = texts[i];
+		line.quote += prefixes[i];
+		if (line.markerLength)
+			line.markerLength += prefixes[i];
+	});
+	block.items = lists.reduce((items, list) => items.concat(list.items), [] as DefinitionListItem[]);
+	block.attributes = lists[0].attributes;
+}
+
+function newBlock(firstLine: number, special: boolean): Block {
+	return {firstLine, lastLine: firstLine, special, isDefinitionList: false, lines: [], items: [], attributes: null};
+}
+
+/**
+ * Divides the lines into blocks (Rule 2) and works out the terms and
+ * definitions of the blocks that are definition lists (Rules 1 and 3).
+ * Every line ends up in exactly one block; an empty line starts a new block,
+ * except (as in PHP Markdown Extra) when it's followed by a definition marker
+ * or by an indented continuation of the definition before it.
+ * @param peek gives access to the lines after the last one of `lines`, if any
+ */
+export function parseLines(lines: SourceLine[], peek?: (lnr: number) => SourceLine | undefined): Block[] {
+	const blocks: Block[] = [];
+	if (!lines.length)
+		return blocks;
+	let currentBlock: Block = newBlock(lines[0].number, false);
+	blocks.push(currentBlock);
+	let inContiguousBlock: boolean = false;
+	const startBlock = (lnr: number, special: boolean) => {
+		if (currentBlock.firstLine !== lnr) {
+			currentBlock = newBlock(lnr, special);
+			blocks.push(currentBlock);
+		} else
+			currentBlock.special = special;
+	};
+
+	/* the first non-empty line after line i */
+	const nextNonEmpty = (i: number): SourceLine | undefined => {
+		for (let j = i + 1; j < lines.length; j++)
+			if (lines[j].text.trim().length)
+				return lines[j];
+		for (let lnr = lines[lines.length - 1].number + 1, next; peek && (next = peek(lnr)); lnr++)
+			if (next.text.trim().length)
+				return next;
+	};
+	let continuing: boolean = false;  // in the indented continuation of a definition
+	let openBlock: boolean = false;   // after a blockStart, until its blockEnd
+	for (let i = 0; i < lines.length; i++) {
+		const line: SourceLine = lines[i];
+		const empty: boolean = !line.text.trim().length;
+		if (continuing) {
+			if (empty || isIndented(line.text)) {
+				// whatever the type of line: it's part of the definition
+				currentBlock.lines.push({...line, role: 'other', markerLength: 0, depth: 0, quote: 0});
+				continue;
+			}
+			continuing = false;
+			if (!hasMarker(line.text))  // a new term after the definition starts a new list
+				startBlock(line.number, false);
+		}
+		else if (empty && line.type === 'normal' && !currentBlock.special && !inContiguousBlock &&
+			currentBlock.lines.length) {
+			const next: SourceLine | undefined = nextNonEmpty(i);
+			const previous: string = currentBlock.lines[currentBlock.lines.length - 1].text;
+			const blockHasMarker: boolean = currentBlock.lines.some(l => hasMarker(l.text));
+			if (next && (next.type === 'normal' || next.type === 'listItem' || isIndented(next.text)) && (
+				(blockHasMarker && isIndented(next.text)) ||
+				(hasMarker(next.text) && (blockHasMarker || previous.trim().length <= MAX_TERM_LEN)))) {
+				currentBlock.lines.push({...line, role: 'other', markerLength: 0, depth: 0, quote: 0});
+				continuing = isIndented(next.text);
+				continue;
+			}
+		}
+		/* in the editor, the closing `%%` of a comment on a line of its own
+		 * can't be told from an opening one (see linetypes.ts) */
+		const type: LineType = line.type === 'blockStart' && openBlock ? 'blockEnd' : line.type;
+		switch (type) {
+			case 'blockStart':
+				inContiguousBlock = false;
+				openBlock = true;
+				startBlock(line.number, true);
+				break;
+			case 'blockEnd':
+				openBlock = false;
+				currentBlock.special = true;
+				currentBlock.lines.push({...line, type, role: 'other', markerLength: 0, depth: 0, quote: 0});
+				currentBlock = newBlock(line.number + 1, false);
+				blocks.push(currentBlock);
+				continue;
+			case 'block':
+				currentBlock.special = true;
+				break;
+			case 'contiguousBlock':
+				if (!inContiguousBlock) {
+					inContiguousBlock = true;
+					startBlock(line.number, true);
+				}
+				break;
+			case 'normal':
+			case 'listItem':
+				// we may still be inside a special block
+				if (inContiguousBlock || (!currentBlock.special && empty)) {
+					// either we're just coming out of a table, a header, etc.,
+					// or there's an empty non-special line. Start a new block
+					startBlock(line.number, false);
+					inContiguousBlock = false;
+				}
+		}
+		currentBlock.lines.push({...line, role: 'other', markerLength: 0, depth: 0, quote: 0});
+	}
+	if (!currentBlock.lines.length)
+		blocks.pop();  // the document ended with the end of a special block
+
+	for (const block of blocks) {
+		block.lastLine = block.lines.length ? block.lines[block.lines.length - 1].number : block.firstLine;
+		if (block.special) {
+			parseQuote(block);
+			continue;
+		}
+		block.isDefinitionList = block.lines.some(line => hasMarker(line.text));
+		if (!block.isDefinitionList) {
+			block.lines.forEach(line => line.role = line.text.length ? 'other' : 'empty');
+			continue;
+		}
+		const depths: number[] = nestingDepths(block.lines.map(line => line.text));
+		const roles = lineRoles(block.lines.map((line, i) => ({
+			text: line.text, listItem: line.type === 'listItem', depth: depths[i]
+		})));
+		block.lines.forEach((line, i) => {
+			const text: string = stripIndent(line.text, depths[i]);
+			line.role = roles[i];
+			line.depth = depths[i];
+			line.markerLength = roles[i] === 'definition' ? line.text.length - text.length + markerLength(text) : 0;
+		});
+		block.items = groupItems(block.lines);
+		const attributeLine: DefinitionListLine | undefined = block.lines.find(line => line.role === 'attributes');
+		block.attributes = attributeLine ? parseAttributes(attributeLine.text) : null;
+	}
+	return blocks;
+}
+
+/* Incremental updates
+ * After an edit, only the blocks around the edit need to be parsed again.
+ * The blocks before them stay as they are; the blocks after them only get
+ * new line numbers. Re-parsing goes on until it's back in step with the old
+ * blocks: a new block starts where an old one started, in the same way.
+ * Usually that's right after the edited block, but e.g. a new code fence
+ * changes the type of every line after it. */
+
+/** Random access to the lines of the document after an edit */
+export interface LineSource {
+	/** the number of the last line */
+	lines: number,
+	line(number: number): SourceLine
+}
+/** The lines affected by an edit */
+export interface LineChange {
+	/** the first and last changed line, numbered as before the edit */
+	fromLine: number,
+	toLine: number,
+	/** the change in the number of lines */
+	delta: number
+}
+
+/** The index of the block that contains the line */
+export function blockIndexAt(blocks: Block[], lnr: number): number {
+	let low = 0, high = blocks.length - 1;
+	while (low < high) {
+		const mid = Math.ceil((low + high) / 2);
+		if (blocks[mid].firstLine <= lnr)
+			low = mid;
+		else
+			high = mid - 1;
+	}
+	return low;
+}
+
+function shiftBlock(block: Block, delta: number): void {
+	block.firstLine += delta;
+	block.lastLine += delta;
+	block.lines.forEach(line => line.number += delta);  // also shifts the lines in .items
+}
+
+/**
+ * Brings the blocks of the whole document up to date after an edit, in place.
+ * Returns the first and last line (new numbering) that were parsed again;
+ * only the lines in that range can have changed their role.
+ */
+export function updateBlocks(blocks: Block[], change: LineChange, source: LineSource): {from: number, to: number} {
+	if (!blocks.length) {
+		blocks.push(...parseLines(Array.from({length: source.lines}, (_, i) => source.line(i + 1))));
+		return {from: 1, to: source.lines};
+	}
+	// an edit on the first line of a block may merge it with the block before;
+	// and whether an empty line starts a block depends on the block before it
+	let first: number = Math.max(0, blockIndexAt(blocks, change.fromLine) - 1);
+	while (first > 0 && !blocks[first].lines[0]?.text.trim().length)
+		first--;
+	const from: number = blocks[first].firstLine;
+	let next: number = blockIndexAt(blocks, change.toLine) + 1;  // first old block after the edit
+	let step: number = 1;
+	const lines: SourceLine[] = [];
+	for (;;) {
+		const nextFirstLine: number = next < blocks.length ? blocks[next].firstLine + change.delta : source.lines + 1;
+		for (let lnr = from + lines.length; lnr <= Math.min(nextFirstLine, source.lines); lnr++)
+			lines.push(source.line(lnr));
+		const parsed: Block[] = parseLines(lines, lnr => lnr <= source.lines ? source.line(lnr) : undefined);
+		if (next >= blocks.length) {
+			blocks.splice(first, blocks.length - first, ...parsed);
+			return {from, to: source.lines};
+		}
+		const last: Block = parsed[parsed.length - 1];
+		const old: Block = blocks[next];
+		if (last.firstLine === nextFirstLine && last.special === old.special &&
+			last.lines[0]?.type === old.lines[0]?.type) {
+			// back in step: the old blocks from here on are still valid
+			parsed.pop();
+			if (change.delta)
+				for (let b = next; b < blocks.length; b++)
+					shiftBlock(blocks[b], change.delta);
+			blocks.splice(first, next - first, ...parsed);
+			return {from, to: nextFirstLine - 1};
+		}
+		next += step;  // look further ahead, in ever larger steps
+		step *= 2;
+	}
+}
+
+/** Parses Markdown text; the returned blocks include those that aren't definition lists */
+export function parseMarkdown(markdown: string, firstLineNumber: number = 1): Block[] {
+	return parseLines(sourceLines(markdown, firstLineNumber));
+}
+
+/** Returns only the definition lists in the Markdown text */
+export function parseDefinitionLists(markdown: string, firstLineNumber: number = 1): Block[] {
+	return parseMarkdown(markdown, firstLineNumber).filter(block => block.isDefinitionList);
+}
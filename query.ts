@@ -0,0 +1,219 @@
+import {
+	App, Component, MarkdownPostProcessorContext, MarkdownRenderChild, MarkdownRenderer, debounce
+} from 'obsidian';
+import {GlossaryEntry, GlossaryIndex, openEntry, tagsOf} from './glossary';
+
+/* Glossary queries
+ * ================
+ * A code block with the language `deflist` shows a definition list that is
+ * put together from the terms in the vault, e.g.
+ *
+ *     ```deflist
+ *     folder: Science/Climate
+ *     tag: #physics
+ *     prefix: ice
+ *     sort: term
+ *     group: letter
+ *     ```
+ *
+ * Each line of the query is `key: value`. Lines with the same key are
+ * alternatives; different keys must all match. The terms come from the
+ * GlossaryIndex, so the list is rendered again whenever the index changes.
+ */
+
+export const QUERY_LANGUAGE: string = 'deflist';
+
+type QuerySort = 'term' | 'note';
+type QueryGroup = 'none' | 'letter' | 'note';
+export interface GlossaryQuery {
+	folders: string[],
+	/** without '#', in lower case */
+	tags: string[],
+	prefixes: string[],
+	regexes: RegExp[],
+	terms: string[],
+	sort: QuerySort,
+	descending: boolean,
+	group: QueryGroup
+}
+
+const QUERY_LINE_REGEX: RegExp = /^(\w+)\s*:\s*(.*)$/;
+const LETTER_REGEX: RegExp = new RegExp('\\p{L}', 'u');
+
+/** Reads the query in the code block; returns an error message if it's not a valid query */
+export function parseQuery(source: string): GlossaryQuery | string {
+	const query: GlossaryQuery = {
+		folders: [], tags: [], prefixes: [], regexes: [], terms: [], sort: 'term', descending: false, group: 'none'
+	};
+	const lines: string[] = source.split('\n');
+	for (let i = 0; i < lines.length; i++) {
+		if (!lines[i].trim().length)
+			continue;
+		const match = lines[i].trim().match(QUERY_LINE_REGEX);
+		if (!match)
+			return `Line ${i + 1}: expected "key: value"`;
+		const key: string = match[1].toLowerCase();
+		const value: string = match[2].trim();
+		switch (key) {
+			case 'folder':
+				query.folders.push(value.replace(/^\/+|\/+$/g, ''));
+				break;
+			case 'tag':
+				query.tags.push(...value.split(/[\s,]+/).filter(tag => tag.length)
+					.map(tag => tag.replace(/^#/, '').toLowerCase()));
+				break;
+			case 'prefix':
+				query.prefixes.push(value.toLowerCase());
+				break;
+			case 'regex': {
+				// /pattern/flags, or just the pattern, which then ignores case
+				const literal = value.match(/^\/(.*)\/([a-z]*)$/);
+				try {
+					query.regexes.push(literal ? new RegExp(literal[1], literal[2].replace(/[gy]/g, '')) :
+						new RegExp(value, 'i'));
+				} catch (e) {
+					return `Line ${i + 1}: ${(e as Error).message}`;
+				}
+				break;
+			}
+			case 'terms':
+				query.terms.push(...value.split(',').map(term => term.trim().toLowerCase()).filter(term => term.length));
+				break;
+			case 'sort': {
+				const [by, order] = value.toLowerCase().split(/\s+/);
+				if ((by !== 'term' && by !== 'note') || (order && order !== 'asc' && order !== 'desc'))
+					return `Line ${i + 1}: sort by "term" or "note", optionally followed by "asc" or "desc"`;
+				query.sort = by;
+				query.descending = order === 'desc';
+				break;
+			}
+			case 'group': {
+				const group: string = value.toLowerCase();
+				if (group !== 'none' && group !== 'letter' && group !== 'note')
+					return `Line ${i + 1}: group by "letter", "note" or "none"`;
+				query.group = group;
+				break;
+			}
+			default:
+				return `Line ${i + 1}: unknown key "${match[1]}"; the keys are folder, tag, prefix, regex, terms, sort and group`;
+		}
+	}
+	return query;
+}
+
+/** The entries of the index that match the query, sorted */
+function selectEntries(app: App, index: GlossaryIndex, query: GlossaryQuery): GlossaryEntry[] {
+	const any = <T>(values: T[], test: (value: T) => boolean): boolean => !values.length || values.some(test);
+	const entries: GlossaryEntry[] = index.entries().filter(entry => {
+		const term: string = entry.term.toLowerCase();
+		return any(query.folders, folder => !folder || entry.file.path.startsWith(folder + '/')) &&
+			any(query.prefixes, prefix => term.startsWith(prefix)) &&
+			any(query.regexes, regex => regex.test(entry.term)) &&
+			any(query.terms, name => term === name) &&
+			any(query.tags, tag => tagsOf(app, entry.file).some(t =>
+				t.toLowerCase() === tag || t.toLowerCase().startsWith(tag + '/')));
+	});
+	// the index is sorted by term already
+	if (query.sort === 'note')
+		entries.sort((a, b) => a.file.path.localeCompare(b.file.path) || a.line - b.line);
+	return query.descending ? entries.reverse() : entries;
+}
+
+/** The entries in groups, in the order of the entries */
+function groupEntries(entries: GlossaryEntry[], group: QueryGroup): Map<string, GlossaryEntry[]> {
+	const groups: Map<string, GlossaryEntry[]> = new Map();
+	for (const entry of entries) {
+		const first: string = entry.term.charAt(0).toLocaleUpperCase();
+		const key: string = group === 'note' ? entry.file.basename :
+			group === 'letter' ? (LETTER_REGEX.test(first) ? first : '#') : '';
+		if (!groups.has(key))
+			groups.set(key, []);
+		groups.get(key).push(entry);
+	}
+	return groups;
+}
+
+/** Renders Markdown into the element; a single paragraph becomes the element's content */
+export async function renderInline(app: App, markdown: string, el: HTMLElement, sourcePath: string,
+                            component: Component): Promise<void> {
+	await MarkdownRenderer.render(app, markdown, el, sourcePath, component);
+	const paragraph: Element | null = el.firstElementChild;
+	if (el.childElementCount === 1 && paragraph?.tagName === 'P')
+		paragraph.replaceWith(...Array.from(paragraph.childNodes));
+}
+
+/** The rendered code block, which follows the changes of the index */
+class GlossaryQueryChild extends MarkdownRenderChild {
+	private readonly app: App;
+	private readonly index: GlossaryIndex;
+	private readonly source: string;
+	/* the rendered Markdown of the last render, unloaded when rendering again */
+	private content: Component | null = null;
+	/* rendering is asynchronous, so a newer render may start before an older one has finished */
+	private generation: number = 0;
+
+	constructor(containerEl: HTMLElement, app: App, index: GlossaryIndex, source: string) {
+		super(containerEl);
+		this.app = app;
+		this.index = index;
+		this.source = source;
+	}
+
+	onload(): void {
+		this.containerEl.addClass('dl-query');
+		// several files may change in quick succession (e.g. on sync)
+		this.registerEvent(this.index.on('changed', debounce(() => this.render(), 500, true)));
+		// noinspection JSIgnoredPromiseFromCall
+		this.render();
+	}
+
+	async render(): Promise<void> {
+		const generation: number = ++this.generation;
+		if (this.content)
+			this.removeChild(this.content);
+		this.content = this.addChild(new Component());
+		const el: HTMLElement = createDiv();
+		const query: GlossaryQuery | string = parseQuery(this.source);
+		if (typeof query === 'string')
+			el.createDiv({cls: 'dl-query-error', text: `Definition list query: ${query}`});
+		else if (!this.index.ready)
+			el.createDiv({cls: 'dl-query-empty', text: 'Indexing...'});
+		else {
+			const entries: GlossaryEntry[] = selectEntries(this.app, this.index, query);
+			if (!entries.length)
+				el.createDiv({cls: 'dl-query-empty', text: 'No terms found'});
+			for (const [name, group] of groupEntries(entries, query.group)) {
+				if (name)
+					el.createDiv({cls: 'dl-query-group', text: name});
+				await this.renderEntries(el.createEl('dl'), group, this.content);
+			}
+		}
+		if (generation !== this.generation)
+			return;  // a newer render has taken over
+		this.containerEl.empty();
+		this.containerEl.append(...Array.from(el.childNodes));
+	}
+
+	private async renderEntries(defList: HTMLDListElement, entries: GlossaryEntry[], component: Component): Promise<void> {
+		for (const entry of entries) {
+			const path: string = entry.file.path;
+			await renderInline(this.app, entry.term, defList.createEl('dt'), path, component);
+			for (const definition of entry.definitions)
+				await renderInline(this.app, definition, defList.createEl('dd'), path, component);
+			const source = defList.createEl('dd', {cls: 'dl-query-source'})
+				.createEl('a', {text: entry.file.basename, href: '#'});
+			source.addEventListener('click', event => {
+				event.preventDefault();
+				// noinspection JSIgnoredPromiseFromCall
+				openEntry(this.app, entry);
+			});
+		}
+	}
+}
+
+/** The processor of `deflist` code blocks */
+export function glossaryQueryProcessor(app: App, index: GlossaryIndex) {
+	return (source: string, el: HTMLElement, context: MarkdownPostProcessorContext): void => {
+		context.addChild(new GlossaryQueryChild(el, app, index, source));
+	};
+}
@@ -0,0 +1,110 @@
+import {
+	ListAttributes, lineRoles, markerLength, nestingDepths, parseAttributes, quoteLength, termSlug
+} from './parser';
+
+/* Definition lists in Reading View and PDF
+ * ========================================
+ * Turns the lines of a paragraph that Obsidian has rendered into the
+ * elements of a <dl>: a <dt> for every term, a <dd> for every definition,
+ * with the definition text without a marker appended to the <dd> before it,
+ * and a nested <dl> inside the <dd> it belongs to. A <dl> gets nothing but
+ * <dt> and <dd> children, as HTML requires. The roles come from the parser.
+ * This module uses only the standard DOM, not Obsidian's additions to it,
+ * so that it can be run under plain Node with a DOM implementation.
+ */
+
+/* The nesting depth of each line of a rendered paragraph. The indentation
+ * that nests a definition list is gone from the paragraph, so the depths
+ * come from its source lines: those of its section in Reading View, or the
+ * lines of the note with the same text when exporting to PDF. */
+function paragraphDepths(texts: string[], source: string[] | null): number[] {
+	if (!source)
+		return texts.map(() => 0);
+	// only the letters and digits; the inline Markdown isn't in the paragraph's text
+	const plain = (text: string): string =>
+		text.replace(/]\([^)]*\)/g, '').replace(/\[\[([^\]|]*\|)?/g, '').replace(/[\W_]+/g, '');
+	const paragraph: string[] = texts.map(plain);
+	// in a blockquote or callout, the lines without their `>`
+	source = source.map(line => line.slice(quoteLength(line)));
+	for (let start = 0; start + texts.length <= source.length; start++) {
+		const lines: string[] = source.slice(start, start + texts.length);
+		if (lines.every((line, i) => plain(line) === paragraph[i]))
+			return nestingDepths(lines);
+	}
+	return texts.map(() => 0);
+}
+
+/* The classes, id and other attributes of an attribute line like
+ * `{.compact #glossary}` go on the <dl>; event handlers are left out */
+function applyAttributes(defList: HTMLDListElement, attributes: ListAttributes | null): void {
+	if (!attributes)
+		return;
+	if (attributes.id)
+		defList.id = attributes.id;
+	defList.classList.add(...attributes.classes);
+	for (const [key, value] of Object.entries(attributes.attributes))
+		if (!key.toLowerCase().startsWith('on'))
+			defList.setAttribute(key, value);
+}
+
+function appendElement<K extends keyof HTMLElementTagNameMap>(parent: HTMLElement, tag: K): HTMLElementTagNameMap[K] {
+	return parent.appendChild(parent.ownerDocument.createElement(tag));
+}
+
+/**
+ * Fills the <dl> with clones of the nodes of a rendered paragraph, whose
+ * lines are separated by <br> elements.
+ * @param source the Markdown lines the paragraph comes from, to find the
+ *   nested definition lists; null if they aren't known
+ */
+export function fillDefinitionList(nodes: NodeListOf<ChildNode>, defList: HTMLDListElement,
+                                   source: string[] | null): void {
+	// split the nodes into lines at every <br>
+	const lines: ChildNode[][] = [[]];
+	nodes.forEach(node => {
+		if ('tagName' in node && node.tagName === "BR")
+			lines.push([]);
+		else
+			lines[lines.length - 1].push(node);
+	});
+	const texts: string[] = lines.map(line =>
+		line.map(node => node.textContent).join('').replace(/^\n/, ''));
+	// the parser decides which lines are terms and which are definitions
+	const depths: number[] = paragraphDepths(texts, source);
+	const roles = lineRoles(texts.map((text, i) => ({text, listItem: false, depth: depths[i]})));
+	// the <dl> of every depth down to the current line's; a nested one is inside the last <dd>
+	const defLists: HTMLDListElement[] = [defList];
+	lines.forEach((line, i) => {
+		if (!line.length || roles[i] === 'empty') return;
+		if (roles[i] === 'attributes') {
+			applyAttributes(defList, parseAttributes(texts[i]));
+			return;
+		}
+		defLists.splice(depths[i] + 1);
+		while (defLists.length <= depths[i]) {
+			const parent: HTMLDListElement = defLists[defLists.length - 1];
+			const dd: HTMLElement = parent.lastElementChild?.tagName === 'DD' ?
+				parent.lastElementChild as HTMLElement : appendElement(parent, 'dd');
+			defLists.push(appendElement(dd, 'dl'));
+		}
+		/* A <dl> may only hold <dt> and <dd>: definition text without a
+		 * marker continues the <dd> before it, as in the parser's items */
+		const container: HTMLDListElement = defLists[defLists.length - 1];
+		const previous: Element | null = container.lastElementChild;
+		const continued: boolean = roles[i] === 'continuation' && previous?.tagName === 'DD';
+		const itemElement: HTMLElement = continued ? previous as HTMLElement :
+			appendElement(container, roles[i] === 'term' ? 'dt' : 'dd');
+		if (continued)
+			appendElement(itemElement, 'br');
+		if (roles[i] === 'term')
+			itemElement.id = termSlug(texts[i]);  // the anchor for links to the term
+		line.forEach((node, j) => {
+			const clone = node.cloneNode(true);
+			if (j === 0 && roles[i] === 'definition') {
+				const text: string = node.textContent.replace(/^\n/, '');
+				clone.textContent = text.slice(markerLength(text));
+			}
+			itemElement.append(clone);
+		});
+	});
+}
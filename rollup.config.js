@@ -14,6 +14,7 @@ export default {
       '@codemirror/state',
       '@codemirror/view',
       '@codemirror/language',
+      '@codemirror/lint',
       'obsidian'
   ],
   plugins: [
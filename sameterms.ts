@@ -0,0 +1,169 @@
+import {App, TFile} from 'obsidian';
+import {
+	DefinitionListItem, DefinitionListLine, definitionText, groupItems, lineContent, nestingIndent,
+	parseDefinitionLists, stripIndent
+} from './parser';
+import {GlossaryEntry} from './glossary';
+
+/* Terms that are the same
+ * =======================
+ * What duplicates.ts does with the text of the notes, without anything
+ * from Obsidian but its types: the normalised form of a term, under which
+ * duplicates are found, and the merging of duplicates into one item, which
+ * reads and changes the notes only through the App it's given.
+ */
+
+export interface DuplicateSettings {
+	duplicateWarnings: boolean;
+	duplicateIgnoreCase: boolean;
+	duplicateIgnorePunctuation: boolean;
+	duplicatePlurals: boolean;
+}
+
+const PUNCTUATION_REGEX: RegExp = new RegExp('[^\\p{L}\\p{N}\\s]', 'gu');
+/* Words that end in an s in the singular too */
+const SINGULARS_WITH_S: Set<string> = new Set(['lens', 'means', 'news', 'series', 'species']);
+
+/* The singular of an English word with a simple plural ending; short words stay as they are */
+export function singular(word: string): string {
+	if (word.length < 4 || /(ss|us|is)$/.test(word) || SINGULARS_WITH_S.has(word.toLowerCase()))
+		return word;
+	if (word.endsWith('ies'))
+		return word.slice(0, -3) + 'y';
+	if (/(sses|xes|zes|ches|shes)$/.test(word))
+		return word.slice(0, -2);
+	return word.endsWith('s') ? word.slice(0, -1) : word;
+}
+
+/** The form of a term under which duplicates are found */
+export function normaliseTerm(term: string, settings: DuplicateSettings): string {
+	let text: string = term
+		.replace(/\[\[(?:[^\]|]*\|)?([^\]]*)]]/g, '$1')  // wikilink: its alias or target
+		.replace(/\[([^\]]*)]\([^)]*\)/g, '$1')             // Markdown link: its text
+		.replace(/[*_`~=]/g, '');                           // emphasis, code, strikethrough, highlight
+	if (settings.duplicateIgnorePunctuation)
+		text = text.replace(PUNCTUATION_REGEX, ' ');
+	text = text.trim().replace(/\s+/g, ' ');
+	if (settings.duplicateIgnoreCase)
+		text = text.toLowerCase();
+	if (settings.duplicatePlurals)
+		text = text.split(' ').map(singular).join(' ');
+	return text;
+}
+
+/* Merging */
+interface FoundItem {
+	item: DefinitionListItem,
+	depth: number
+}
+
+/* The item with the entry's term on its line, in a top-level or nested
+ * list; null if the line has another term now */
+function itemAt(text: string, entry: GlossaryEntry): FoundItem | null {
+	for (const block of parseDefinitionLists(text, 0)) {
+		if (entry.line < block.firstLine || entry.line > block.lastLine)
+			continue;
+		const items: FoundItem[] = block.items.map(item => ({item, depth: 0}));
+		for (const found of items) {
+			const term: DefinitionListLine | undefined = found.item.terms.find(t => t.number === entry.line);
+			if (term)
+				return lineContent(term).trim() === entry.term ? found : null;
+			for (const definition of found.item.definitions)
+				items.push(...groupItems(definition.lines.filter(l => l.depth > found.depth), found.depth + 1)
+					.map(item => ({item, depth: found.depth + 1})));
+		}
+	}
+	return null;
+}
+
+/* The lines of the item's definitions, without the empty lines at the end */
+function definitionLines(item: DefinitionListItem): DefinitionListLine[] {
+	const lines: DefinitionListLine[] = [];
+	item.definitions.forEach(definition => lines.push(...definition.lines));
+	while (lines.length && lines[lines.length - 1].role === 'empty')
+		lines.pop();
+	return lines;
+}
+
+/**
+ * Adds the definitions of the other entries that the target doesn't have
+ * yet to the target, at the target's depth and in its quote, and removes
+ * the other terms: the whole item if it has no other terms, else only the
+ * term's line. Every term is checked in every file before any file is
+ * changed. Returns the number of definitions added.
+ */
+export async function mergeEntries(app: App, target: GlossaryEntry, others: GlossaryEntry[]): Promise<number> {
+	const texts: Map<TFile, string> = new Map();
+	for (const entry of [target, ...others])
+		if (!texts.has(entry.file))
+			texts.set(entry.file, await app.vault.read(entry.file));
+	const found: FoundItem | null = itemAt(texts.get(target.file), target);
+	const missing: GlossaryEntry | undefined = others.find(entry => !itemAt(texts.get(entry.file), entry));
+	if (!found || missing) {
+		const {term, line, file} = missing ?? target;
+		throw new Error(`"${term}" is no longer on line ${line + 1} of ${file.path}`);
+	}
+
+	// the definitions to add, as lines in the form of the target
+	const term: DefinitionListLine = found.item.terms[0];
+	const quote: string = term.text.slice(0, term.quote);
+	const indent: string = nestingIndent(term.text.slice(term.quote), found.depth);
+	const known: Set<string> = new Set(found.item.definitions.map(d => definitionText(d).trim().toLowerCase()));
+	const added: string[] = [];
+	let count: number = 0;
+	for (const entry of others) {
+		const {item, depth} = itemAt(texts.get(entry.file), entry);
+		for (const definition of item.definitions) {
+			const text: string = definitionText(definition).trim().toLowerCase();
+			if (!text || known.has(text))
+				continue;
+			known.add(text);
+			count++;
+			const lines: DefinitionListLine[] = definition.lines.slice();
+			while (lines.length && lines[lines.length - 1].role === 'empty')
+				lines.pop();
+			added.push(...lines.map(line => {
+				const content: string = stripIndent(line.text.slice(line.quote), depth);
+				return content.trim() ? quote + indent + content : quote.trimEnd();
+			}));
+		}
+	}
+
+	// the lines to remove, per file; an item that loses all its terms goes as a whole
+	const removals: Map<TFile, Set<number>> = new Map();
+	for (const entry of others) {
+		const {item} = itemAt(texts.get(entry.file), entry);
+		const remove: Set<number> = removals.get(entry.file) ?? new Set();
+		removals.set(entry.file, remove);
+		remove.add(entry.line);
+		const sameItem: boolean = entry.file === target.file && item.terms.some(t => t.number === target.line);
+		if (!sameItem && item.terms.every(t => remove.has(t.number))) {
+			const last: number = definitionLines(item).pop()?.number ?? entry.line;
+			for (let line = item.terms[0].number; line <= last; line++)
+				remove.add(line);
+		}
+	}
+
+	/* The target's file first: if another file can't be changed, its
+	 * definitions are then in the target as well, but none are lost */
+	const files: TFile[] = [target.file, ...Array.from(texts.keys()).filter(file => file !== target.file)];
+	for (const file of files) {
+		const remove: Set<number> = removals.get(file) ?? new Set();
+		const insertAfter: number = file === target.file ?
+			(definitionLines(found.item).pop() ?? found.item.terms[found.item.terms.length - 1]).number : -1;
+		await app.vault.process(file, text => {
+			// the line numbers are those of the text that was checked
+			if (text !== texts.get(file))
+				throw new Error(`${file.path} was changed during the merge`);
+			const result: string[] = [];
+			text.split('\n').forEach((line, i) => {
+				if (!remove.has(i))
+					result.push(line);
+				if (i === insertAfter)
+					result.push(...added);
+			});
+			return result.join('\n');
+		});
+	}
+	return count;
+}